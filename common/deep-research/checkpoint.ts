@@ -0,0 +1,69 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  DeepResearchCheckpoint,
+  DeepResearchCheckpointStore,
+} from "./types";
+
+function assertSupportedCheckpoint(
+  checkpoint: DeepResearchCheckpoint,
+): DeepResearchCheckpoint {
+  if (checkpoint.version !== 1) {
+    throw new Error(
+      `Unsupported deep research checkpoint version: ${String(checkpoint.version)}`,
+    );
+  }
+
+  return checkpoint;
+}
+
+export function createMemoryCheckpointStore(): DeepResearchCheckpointStore {
+  const checkpoints = new Map<string, DeepResearchCheckpoint>();
+
+  return {
+    async save(checkpoint) {
+      checkpoints.set(checkpoint.runId, structuredClone(checkpoint));
+    },
+    async load(runId) {
+      const checkpoint = checkpoints.get(runId);
+      return checkpoint ? structuredClone(checkpoint) : null;
+    },
+    async delete(runId) {
+      checkpoints.delete(runId);
+    },
+  };
+}
+
+export function createFileCheckpointStore(args: {
+  directory: string;
+}): DeepResearchCheckpointStore {
+  const pathFor = (runId: string) =>
+    join(args.directory, `${encodeURIComponent(runId)}.json`);
+
+  return {
+    async save(checkpoint) {
+      await mkdir(args.directory, { recursive: true });
+
+      const path = pathFor(checkpoint.runId);
+      const temporaryPath = `${path}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify(checkpoint, null, 2), "utf8");
+      await rename(temporaryPath, path);
+    },
+    async load(runId) {
+      let raw: string;
+      try {
+        raw = await readFile(pathFor(runId), "utf8");
+      } catch (error) {
+        if ((error as { code?: unknown }).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+
+      return assertSupportedCheckpoint(JSON.parse(raw) as DeepResearchCheckpoint);
+    },
+    async delete(runId) {
+      await rm(pathFor(runId), { force: true });
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import type {
+  DeepResearchCitation,
+  DeepResearchCitationIssue,
+  DeepResearchCitationValidation,
+  MinimalSearchResult,
+} from "./types";
+
+const referencesHeadingPattern = /^(#{1,6})\s+(references|bibliography|sources)\s*$/i;
+const citationMarkerPattern = /(\s?)\[(\d+(?:\s*[,;]\s*\d+)*)\](?!\()/g;
+const linkOrUrlPattern =
+  /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)|(\s?)(https?:\/\/[^\s<>)\]"']+[^\s<>)\]"'.,;:!?])/g;
+
+export function createCitations(
+  searchResults: MinimalSearchResult[],
+): DeepResearchCitation[] {
+  return searchResults.map((result, index) => ({
+    id: index + 1,
+    title: result.title,
+    url: result.url,
+    cited: false,
+  }));
+}
+
+function removeReferencesSection(report: string): string {
+  const lines = report.split("\n");
+  const start = lines.findIndex((line) => referencesHeadingPattern.test(line.trim()));
+  if (start < 0) {
+    return report;
+  }
+
+  const level = referencesHeadingPattern.exec(lines[start]?.trim() ?? "")?.[1]?.length ?? 1;
+  const end = lines.findIndex(
+    (line, index) =>
+      index > start && (/^(#{1,6})\s/.exec(line)?.[1]?.length ?? Infinity) <= level,
+  );
+
+  return [...lines.slice(0, start), ...(end < 0 ? [] : lines.slice(end))].join("\n");
+}
+
+export function applyNumberedCitations(args: {
+  report: string;
+  citations: DeepResearchCitation[];
+  validation: DeepResearchCitationValidation;
+  canonicalUrl: (url: string) => string;
+}): {
+  report: string;
+  citations: DeepResearchCitation[];
+  issues: DeepResearchCitationIssue[];
+} {
+  const citations = args.citations.map((citation) => ({ ...citation, cited: false }));
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const byUrl = new Map(
+    citations.map((citation) => [args.canonicalUrl(citation.url), citation]),
+  );
+  const issues: DeepResearchCitationIssue[] = [];
+  const strip = args.validation === "strip";
+  const action = strip ? "stripped" : "flagged";
+
+  let report = removeReferencesSection(args.report).replace(
+    citationMarkerPattern,
+    (marker, space: string, ids: string) => {
+      const known: number[] = [];
+      for (const id of ids.split(/\s*[,;]\s*/).map(Number)) {
+        const citation = byId.get(id);
+        if (citation) {
+          citation.cited = true;
+          known.push(id);
+        } else {
+          issues.push({ kind: "unknown-source-id", value: String(id), action });
+        }
+      }
+
+      if (!strip) {
+        return marker;
+      }
+      return known.length > 0 ? `${space}[${known.join(", ")}]` : "";
+    },
+  );
+
+  report = report.replace(
+    linkOrUrlPattern,
+    (
+      match,
+      text: string | undefined,
+      linkUrl: string | undefined,
+      space: string | undefined,
+      bareUrl: string | undefined,
+    ) => {
+      const url = linkUrl ?? bareUrl ?? "";
+      const citation = byUrl.get(args.canonicalUrl(url));
+      if (citation) {
+        citation.cited = true;
+        return text === undefined
+          ? `${space ?? ""}[${citation.id}]`
+          : `${text} [${citation.id}]`;
+      }
+
+      issues.push({ kind: "unknown-url", value: url, action });
+      if (!strip) {
+        return match;
+      }
+      return text ?? "";
+    },
+  );
+
+  const cited = citations.filter((citation) => citation.cited);
+  if (cited.length > 0) {
+    report = [
+      report.trimEnd(),
+      "",
+      "## References",
+      "",
+      ...cited.map((citation) => `- [${citation.id}] ${citation.title}. ${citation.url}`),
+    ].join("\n");
+  }
+
+  return { report, citations, issues };
+}
@@ -90,6 +90,43 @@ export function createDeepResearchAgentFromConfig(
     maxQueriesPerRun: config.maxQueriesPerRun,
     maxFollowUpQuestions: config.maxFollowUpQuestions,
     maxCharactersPerResult: config.maxCharactersPerResult,
+    concurrency: config.concurrency,
+    checkpointStore: config.checkpointStore,
+    maxTokens: config.maxTokens,
+    maxCostUsd: config.maxCostUsd,
+    modelPrices: config.modelPrices,
+    timeBudgetMs: config.timeBudgetMs,
+    explorationStrategy: config.explorationStrategy,
+    breadthDecay: config.breadthDecay,
+    retry: config.retry,
+    maxFailures: config.maxFailures,
+    relevanceEvaluation: config.relevanceEvaluation,
+    maxEvaluationBatchCharacters: config.maxEvaluationBatchCharacters,
+    coordinatorMode: config.coordinatorMode,
+    maxSearchReformulations: config.maxSearchReformulations,
+    minAcceptedResults: config.minAcceptedResults,
+    urlCanonicalization: config.urlCanonicalization,
+    nearDuplicateThreshold: config.nearDuplicateThreshold,
+    domainPolicy: config.domainPolicy,
+    credibilityScoring: config.credibilityScoring,
+    domainTiers: config.domainTiers,
+    credibilityScorer: config.credibilityScorer,
+    learningExtraction: config.learningExtraction,
+    maxLearningsPerSource: config.maxLearningsPerSource,
+    chunkCharacters: config.chunkCharacters,
+    chunkOverlapCharacters: config.chunkOverlapCharacters,
+    maxChunksPerSource: config.maxChunksPerSource,
+    maxReportPromptTokens: config.maxReportPromptTokens,
+    detectContradictions: config.detectContradictions,
+    citationStyle: config.citationStyle,
+    citationValidation: config.citationValidation,
+    claimVerification: config.claimVerification,
+    searchLanguages: config.searchLanguages,
+    outputLanguage: config.outputLanguage,
+    approval: config.approval,
+    prompts: config.prompts,
+    reportTemplate: config.reportTemplate,
+    reportTemplates: config.reportTemplates,
   });
 }
 
@@ -99,18 +136,26 @@ export function streamDeepResearchFromConfig(config: DeepResearchRunConfig) {
     {
       depth: config.depth,
       breadth: config.breadth,
+      runId: config.runId,
+      deadline: config.deadline,
+      outputSchema: config.outputSchema,
+      includeReport: config.includeReport,
     },
   );
 }
 
-export function runDeepResearchFromConfig(
-  config: DeepResearchRunConfig,
-): Promise<DeepResearchResult> {
+export function runDeepResearchFromConfig<TOutput = unknown>(
+  config: DeepResearchRunConfig<TOutput>,
+): Promise<DeepResearchResult<TOutput>> {
   return createDeepResearchAgentFromConfig(config).run(
     { prompt: config.prompt },
     {
       depth: config.depth,
       breadth: config.breadth,
+      runId: config.runId,
+      deadline: config.deadline,
+      outputSchema: config.outputSchema,
+      includeReport: config.includeReport,
     },
   );
 }
@@ -0,0 +1,58 @@
+import {
+  conflictingEvidencePosition,
+  defaultReportTemplates,
+  getConflictingEvidenceHeading,
+  getReportSections,
+} from "./templates";
+import type { DeepResearchContradiction, DeepResearchReportTemplate } from "./types";
+
+function headingPattern(heading: string): RegExp {
+  const escaped = heading
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  return new RegExp(`^#{1,6}\\s+${escaped}\\s*$`, "im");
+}
+
+export function formatConflictingEvidence(
+  contradictions: DeepResearchContradiction[],
+  heading: string,
+): string {
+  return [
+    `## ${heading}`,
+    "",
+    ...contradictions.flatMap((contradiction) => [
+      `### ${contradiction.subject}`,
+      "",
+      contradiction.description,
+      "",
+      ...contradiction.claims.map((claim) => `- ${claim.learning} (${claim.sourceUrl})`),
+      "",
+    ]),
+  ].join("\n");
+}
+
+export function ensureConflictingEvidenceSection(
+  report: string,
+  contradictions: DeepResearchContradiction[],
+  template: DeepResearchReportTemplate = defaultReportTemplates.standard,
+): string {
+  const heading = getConflictingEvidenceHeading(template);
+  if (contradictions.length === 0 || headingPattern(heading).test(report)) {
+    return report;
+  }
+
+  const section = formatConflictingEvidence(contradictions, heading);
+  const next = getReportSections(template)[conflictingEvidencePosition(template)];
+  const nextHeading = next ? headingPattern(next.heading).exec(report) : null;
+  if (!nextHeading) {
+    return `${report.trimEnd()}\n\n${section.trimEnd()}`;
+  }
+
+  return [
+    report.slice(0, nextHeading.index).trimEnd(),
+    "",
+    section,
+    report.slice(nextHeading.index),
+  ].join("\n");
+}
@@ -2,25 +2,40 @@ import type {
   CreateDeepResearchAgentConfig,
   DeepResearchAgent,
   DeepResearchCallOptions,
+  DeepResearchCheckpoint,
   DeepResearchInput,
+  DeepResearchResumeOptions,
 } from "./types";
 import { createExaSearchExecutor } from "./exa";
 import {
   createWorkflowDependencies,
+  defaultMaxChunksPerSource,
   executeDeepResearchWorkflow,
   streamDeepResearchWorkflow,
 } from "./workflow";
+import { resolveReportTemplate } from "./templates";
+import { assertBudgetPricing } from "./usage";
 import { normalizeTopic } from "./utils";
 
 export function createDeepResearchAgent(
   config: CreateDeepResearchAgentConfig,
 ): DeepResearchAgent {
+  const chunkCharacters =
+    config.chunkCharacters ?? (config.maxChunksPerSource === undefined ? undefined : 4_000);
+  const maxChunksPerSource =
+    chunkCharacters === undefined
+      ? undefined
+      : (config.maxChunksPerSource ?? defaultMaxChunksPerSource);
   const search =
     config.search ??
     (config.exaApiKey ?? process.env.EXA_API_KEY
       ? createExaSearchExecutor({
           apiKey: config.exaApiKey ?? process.env.EXA_API_KEY ?? "",
-          maxCharactersPerResult: config.maxCharactersPerResult,
+          maxCharactersPerResult:
+            config.maxCharactersPerResult ??
+            (chunkCharacters === undefined || maxChunksPerSource === undefined
+              ? undefined
+              : chunkCharacters * maxChunksPerSource),
         })
       : undefined);
 
@@ -30,23 +45,119 @@ export function createDeepResearchAgent(
     );
   }
 
+  const synthesisModel = config.synthesisModel ?? config.model;
+  const defaultReportTemplate = resolveReportTemplate(
+    config.reportTemplate,
+    config.reportTemplates,
+  );
   const deps = createWorkflowDependencies({
     model: config.model,
-    synthesisModel: config.synthesisModel ?? config.model,
+    synthesisModel,
     search,
     maxResultsPerQuery: config.maxResultsPerQuery ?? 3,
     maxQueriesPerRun: config.maxQueriesPerRun ?? 20,
     maxFollowUpQuestions: config.maxFollowUpQuestions ?? 3,
+    maxFailures: config.maxFailures ?? 5,
+    concurrency: config.concurrency ?? 1,
+    checkpointStore: config.checkpointStore,
+    modelPrices: config.modelPrices,
+    breadthDecay: config.breadthDecay,
+    retryPolicy: config.retry,
+    relevanceEvaluation: config.relevanceEvaluation ?? "per-result",
+    maxEvaluationBatchCharacters: config.maxEvaluationBatchCharacters ?? 24_000,
+    coordinatorMode: config.coordinatorMode ?? "deterministic",
+    maxSearchReformulations: config.maxSearchReformulations ?? 2,
+    minAcceptedResults: config.minAcceptedResults ?? 1,
+    urlCanonicalization: config.urlCanonicalization,
+    nearDuplicateThreshold: config.nearDuplicateThreshold,
+    domainPolicy: config.domainPolicy,
+    credibilityScoring: config.credibilityScoring ?? "off",
+    domainTiers: config.domainTiers,
+    credibilityScorer: config.credibilityScorer,
+    learningExtraction: config.learningExtraction ?? "single",
+    maxLearningsPerSource: config.maxLearningsPerSource ?? 5,
+    chunkCharacters,
+    chunkOverlapCharacters: config.chunkOverlapCharacters ?? 200,
+    maxChunksPerSource,
+    maxReportPromptTokens: config.maxReportPromptTokens ?? 100_000,
+    detectContradictions: config.detectContradictions,
+    citationStyle: config.citationStyle,
+    citationValidation: config.citationValidation,
+    claimVerification: config.claimVerification,
+    searchLanguages: config.searchLanguages,
+    outputLanguage: config.outputLanguage,
+    prompts: config.prompts,
   });
 
-  function resolveOptions(options?: DeepResearchCallOptions) {
+  function resolveBudget(
+    options?: Pick<DeepResearchCallOptions, "maxTokens" | "maxCostUsd">,
+  ) {
+    const budget = {
+      maxTokens: options?.maxTokens ?? config.maxTokens,
+      maxCostUsd: options?.maxCostUsd ?? config.maxCostUsd,
+    };
+
+    assertBudgetPricing({
+      budget,
+      prices: config.modelPrices,
+      models: [config.model, synthesisModel],
+    });
+
+    return budget;
+  }
+
+  function resolveOutput<TOutput>(
+    options?: Pick<DeepResearchCallOptions<TOutput>, "outputSchema" | "includeReport">,
+  ) {
+    const includeReport = options?.includeReport ?? true;
+    if (!includeReport && !options?.outputSchema) {
+      throw new Error("includeReport: false requires an outputSchema.");
+    }
+
+    return { outputSchema: options?.outputSchema, includeReport };
+  }
+
+  function resolveOptions<TOutput>(options?: DeepResearchCallOptions<TOutput>) {
     return {
       depth: options?.depth ?? config.defaultDepth ?? 2,
       breadth: options?.breadth ?? config.defaultBreadth ?? 3,
+      runId: options?.runId,
+      ...resolveBudget(options),
+      deadline: options?.deadline,
+      timeBudgetMs: options?.timeBudgetMs ?? config.timeBudgetMs,
+      explorationStrategy:
+        options?.explorationStrategy ?? config.explorationStrategy,
+      reportTemplate:
+        options?.reportTemplate === undefined
+          ? defaultReportTemplate
+          : resolveReportTemplate(options.reportTemplate, config.reportTemplates),
+      ...resolveOutput(options),
+      approval: options?.approval ?? config.approval,
       abortSignal: options?.abortSignal,
     };
   }
 
+  async function loadCheckpoint(
+    checkpoint: DeepResearchCheckpoint | string,
+  ): Promise<DeepResearchCheckpoint> {
+    if (typeof checkpoint !== "string") {
+      return checkpoint;
+    }
+
+    if (!config.checkpointStore) {
+      throw new Error(
+        "Resuming by run id requires config.checkpointStore to be configured.",
+      );
+    }
+
+    const loaded = await config.checkpointStore.load(checkpoint);
+    if (!loaded) {
+      throw new Error(`No checkpoint found for run "${checkpoint}".`);
+    }
+
+    return loaded;
+  }
+
   return {
     stream(input: DeepResearchInput, options?: DeepResearchCallOptions) {
       return streamDeepResearchWorkflow({
@@ -55,12 +166,38 @@ export function createDeepResearchAgent(
         deps,
       });
     },
-    run(input: DeepResearchInput, options?: DeepResearchCallOptions) {
+    run<TOutput>(input: DeepResearchInput, options?: DeepResearchCallOptions<TOutput>) {
       return executeDeepResearchWorkflow({
         topic: normalizeTopic(input),
         options: resolveOptions(options),
         deps,
       });
     },
+    async resume<TOutput>(
+      checkpoint: DeepResearchCheckpoint | string,
+      options?: DeepResearchResumeOptions<TOutput>,
+    ) {
+      const loaded = await loadCheckpoint(checkpoint);
+
+      return executeDeepResearchWorkflow({
+        topic: loaded.topic,
+        options: {
+          depth: loaded.depth,
+          breadth: loaded.breadth,
+          runId: loaded.runId,
+          ...resolveBudget(options),
+          deadline: options?.deadline,
+          timeBudgetMs: options?.timeBudgetMs ?? config.timeBudgetMs,
+          explorationStrategy:
+            loaded.explorationStrategy ?? config.explorationStrategy,
+          reportTemplate: loaded.reportTemplate ?? defaultReportTemplate,
+          ...resolveOutput(options),
+          approval: options?.approval ?? config.approval,
+          abortSignal: options?.abortSignal,
+        },
+        deps,
+        checkpoint: loaded,
+      });
+    },
   };
 }
@@ -0,0 +1,43 @@
+import { findMatchingDomain } from "./urls";
+import type { DeepResearchCredibility } from "./types";
+
+export const defaultDomainTiers: Record<string, number> = {
+  gov: 0.9,
+  mil: 0.9,
+  edu: 0.85,
+  int: 0.85,
+  "europa.eu": 0.85,
+  "who.int": 0.9,
+  "nature.com": 0.9,
+  "science.org": 0.9,
+  "nih.gov": 0.95,
+  "arxiv.org": 0.75,
+  "wikipedia.org": 0.7,
+  "medium.com": 0.4,
+  "substack.com": 0.4,
+  "reddit.com": 0.3,
+  "quora.com": 0.25,
+};
+
+export const unratedCredibilityScore = 0.5;
+
+export function scoreByDomainTier(
+  url: string,
+  tiers: Record<string, number>,
+): DeepResearchCredibility | null {
+  const domain = findMatchingDomain(url, Object.keys(tiers));
+  const score = domain === null ? undefined : tiers[domain];
+  if (domain === null || score === undefined) {
+    return null;
+  }
+
+  return {
+    score: clampScore(score),
+    method: "domain-tier",
+    reason: `Domain tier for ${domain}.`,
+  };
+}
+
+export function clampScore(score: number): number {
+  return Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : unratedCredibilityScore;
+}
@@ -0,0 +1,111 @@
+import type { MinimalSearchResult } from "./types";
+
+const shingleSize = 3;
+const signatureSize = 128;
+
+export const defaultNearDuplicateThreshold = 0.75;
+
+export interface NearDuplicateMatch {
+  source: MinimalSearchResult;
+  similarity: number;
+}
+
+export interface NearDuplicateIndex {
+  find(content: string): NearDuplicateMatch | null;
+  add(source: MinimalSearchResult): void;
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash;
+}
+
+function mixHash(value: number): number {
+  let hash = value >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+export function createContentSignature(content: string): number[] | null {
+  const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+
+  const shingles = new Set<string>();
+  if (words.length < shingleSize) {
+    shingles.add(words.join(" "));
+  }
+  for (let index = 0; index + shingleSize <= words.length; index += 1) {
+    shingles.add(words.slice(index, index + shingleSize).join(" "));
+  }
+
+  const signature = new Array<number>(signatureSize).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = hashString(shingle);
+    for (let slot = 0; slot < signatureSize; slot += 1) {
+      const hash = mixHash(base ^ Math.imul(slot + 1, 0x9e3779b9));
+      if (hash < (signature[slot] ?? 0xffffffff)) {
+        signature[slot] = hash;
+      }
+    }
+  }
+
+  return signature;
+}
+
+export function estimateContentSimilarity(left: number[], right: number[]): number {
+  let matches = 0;
+  for (const [slot, hash] of left.entries()) {
+    if (right[slot] === hash) {
+      matches += 1;
+    }
+  }
+
+  return matches / Math.max(left.length, 1);
+}
+
+export function createNearDuplicateIndex(
+  threshold = defaultNearDuplicateThreshold,
+): NearDuplicateIndex {
+  const entries: Array<{ signature: number[]; source: MinimalSearchResult }> = [];
+
+  return {
+    find(content) {
+      const signature = createContentSignature(content);
+      if (!signature) {
+        return null;
+      }
+
+      let best: NearDuplicateMatch | null = null;
+      for (const entry of entries) {
+        const similarity = estimateContentSimilarity(signature, entry.signature);
+        if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+          best = { source: entry.source, similarity };
+        }
+      }
+
+      return best;
+    },
+    add(source) {
+      const signature = createContentSignature(source.content);
+      if (signature) {
+        entries.push({ signature, source });
+      }
+    },
+  };
+}
+
+export function recordMirror(source: MinimalSearchResult, url: string): void {
+  if (source.url === url || source.mirrors?.includes(url)) {
+    return;
+  }
+
+  source.mirrors = [...(source.mirrors ?? []), url];
+}
@@ -0,0 +1,71 @@
+import type {
+  DeepResearchBreadthDecay,
+  DeepResearchExplorationStrategy,
+  DeepResearchFrontierItem,
+} from "./types";
+import { compareOrderKeys } from "./utils";
+
+type TopicItem = Extract<DeepResearchFrontierItem, { kind: "topic" }>;
+
+export interface ExplorationStrategy {
+  expandImmediately: boolean;
+  requiresScores: boolean;
+  selectWave(pending: TopicItem[], capacity: number): TopicItem[];
+}
+
+const explorationStrategies: Record<
+  DeepResearchExplorationStrategy,
+  ExplorationStrategy
+> = {
+  "depth-first": {
+    expandImmediately: true,
+    requiresScores: false,
+    selectWave: (pending) => pending,
+  },
+  "breadth-first": {
+    expandImmediately: false,
+    requiresScores: false,
+    selectWave: (pending) => {
+      const shallowest = Math.max(...pending.map((item) => item.remainingDepth));
+      return pending
+        .filter((item) => item.remainingDepth === shallowest)
+        .sort((left, right) => compareOrderKeys(left.key, right.key));
+    },
+  },
+  "best-first": {
+    expandImmediately: false,
+    requiresScores: true,
+    selectWave: (pending, capacity) =>
+      [...pending]
+        .sort(
+          (left, right) =>
+            (right.priority ?? 0) - (left.priority ?? 0) ||
+            compareOrderKeys(left.key, right.key),
+        )
+        .slice(0, Math.max(1, capacity)),
+  },
+};
+
+export function getExplorationStrategy(
+  name: DeepResearchExplorationStrategy = "depth-first",
+): ExplorationStrategy {
+  return explorationStrategies[name];
+}
+
+export function applyBreadthDecay(
+  policy: DeepResearchBreadthDecay | undefined,
+  args: { breadth: number; remainingDepth: number },
+): number {
+  let next: number;
+  if (typeof policy === "function") {
+    next = policy(args);
+  } else if (policy === "constant") {
+    next = args.breadth;
+  } else if (policy === "decrement") {
+    next = args.breadth - 1;
+  } else {
+    next = Math.ceil(args.breadth / 2);
+  }
+
+  return Number.isFinite(next) ? Math.max(1, Math.floor(next)) : 1;
+}
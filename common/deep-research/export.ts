@@ -0,0 +1,349 @@
+import { getHostname } from "./urls";
+import type {
+  DeepResearchCslItem,
+  DeepResearchReportJsonLd,
+  DeepResearchResult,
+} from "./types";
+
+interface ReportSection {
+  heading: string;
+  content: string;
+}
+
+const headingPattern = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+function requireReport(result: DeepResearchResult): string {
+  if (result.report === null) {
+    throw new Error(`Cannot export the ${result.status} run "${result.metadata.runId}" because it has no report.`);
+  }
+
+  return result.report;
+}
+
+function splitReport(report: string): { title: string | null; sections: ReportSection[] } {
+  let title: string | null = null;
+  const sections: ReportSection[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+  const flush = () => {
+    if (current) {
+      sections.push({ heading: current.heading, content: current.lines.join("\n").trim() });
+    }
+  };
+
+  for (const line of report.split("\n")) {
+    const match = headingPattern.exec(line.trim());
+    if (match?.[1] === "#" && title === null && sections.length === 0 && !current) {
+      title = match[2] ?? null;
+    } else if (match?.[1] === "##") {
+      flush();
+      current = { heading: match[2] ?? "", lines: [] };
+    } else {
+      current?.lines.push(line);
+    }
+  }
+  flush();
+
+  return { title, sections };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function createSlugger(): (text: string) => string {
+  const used = new Map<string, number>();
+  return (text) => {
+    const base =
+      text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "") || "section";
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+}
+
+function renderInline(text: string, sourceCount: number): string {
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/`([^`]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return escapeHtml(withoutCode)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_match, label: string, href: string) =>
+      /^(https?:|mailto:|#)/i.test(href) ? `<a href="${href}">${label}</a>` : label,
+    )
+    .replace(/\[(\d+(?:\s*[,;]\s*\d+)*)\](?!\()/g, (_match, ids: string) => {
+      const links = ids
+        .split(/\s*[,;]\s*/)
+        .map(Number)
+        .map((id) =>
+          id >= 1 && id <= sourceCount ? `<a href="#source-${id}">${id}</a>` : String(id),
+        );
+      return `[${links.join(", ")}]`;
+    })
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)] ?? "");
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function renderMarkdown(
+  markdown: string,
+  args: { sourceCount: number; slug: (text: string) => string },
+): { html: string; headings: Array<{ level: number; text: string; id: string }> } {
+  const lines = markdown.split("\n");
+  const html: string[] = [];
+  const headings: Array<{ level: number; text: string; id: string }> = [];
+  let paragraph: string[] = [];
+  const inline = (text: string) => renderInline(text, args.sourceCount);
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${inline(paragraph.join(" "))}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !(lines[index] ?? "").trim().startsWith("```")) {
+        code.push(lines[index] ?? "");
+        index += 1;
+      }
+      html.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = headingPattern.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1]?.length ?? 1;
+      const text = heading[2] ?? "";
+      const id = args.slug(text);
+      headings.push({ level, text, id });
+      html.push(`<h${level} id="${id}">${inline(text)}</h${level}>`);
+      continue;
+    }
+
+    if (
+      trimmed.startsWith("|") &&
+      /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test((lines[index + 1] ?? "").trim())
+    ) {
+      flushParagraph();
+      const header = splitTableRow(trimmed);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && (lines[index] ?? "").trim().startsWith("|")) {
+        rows.push(splitTableRow(lines[index] ?? ""));
+        index += 1;
+      }
+      index -= 1;
+      html.push(
+        [
+          "<table>",
+          `<thead><tr>${header.map((cell) => `<th>${inline(cell)}</th>`).join("")}</tr></thead>`,
+          "<tbody>",
+          ...rows.map((row) => `<tr>${row.map((cell) => `<td>${inline(cell)}</td>`).join("")}</tr>`),
+          "</tbody>",
+          "</table>",
+        ].join("\n"),
+      );
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      html.push("<hr>");
+      continue;
+    }
+
+    const listItem = /^([-*+]|\d+[.)])\s+(.*)$/.exec(trimmed);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1] ?? "");
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = /^([-*+]|\d+[.)])\s+(.*)$/.exec((lines[index] ?? "").trim());
+        if (!item || /\d/.test(item[1] ?? "") !== ordered) {
+          break;
+        }
+        items.push(`<li>${inline(item[2] ?? "")}</li>`);
+        index += 1;
+      }
+      index -= 1;
+      const tag = ordered ? "ol" : "ul";
+      html.push(`<${tag}>\n${items.join("\n")}\n</${tag}>`);
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (index < lines.length && (lines[index] ?? "").trim().startsWith(">")) {
+        quote.push((lines[index] ?? "").trim().replace(/^>\s?/, ""));
+        index += 1;
+      }
+      index -= 1;
+      html.push(`<blockquote><p>${inline(quote.join(" "))}</p></blockquote>`);
+      continue;
+    }
+
+    if (trimmed === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(trimmed);
+    }
+  }
+  flushParagraph();
+
+  return { html: html.join("\n"), headings };
+}
+
+export function renderReportHtml(result: DeepResearchResult): string {
+  const report = requireReport(result);
+  const { title } = splitReport(report);
+  const documentTitle = title ?? result.topic;
+  const slug = createSlugger();
+  slug("contents");
+  slug("sources");
+
+  const body = renderMarkdown(title === null ? report : report.replace(/^#\s+.*$/m, ""), {
+    sourceCount: result.searchResults.length,
+    slug,
+  });
+  const toc = body.headings
+    .filter((heading) => heading.level === 2)
+    .map(({ text, id }) => `<li><a href="#${id}">${renderInline(text, 0)}</a></li>`);
+
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(documentTitle)}</title>`,
+    "<style>",
+    "body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font: 16px/1.6 system-ui, sans-serif; color: #1f2328; }",
+    "table { border-collapse: collapse; } th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; }",
+    "pre { overflow-x: auto; background: #f6f8fa; padding: 0.75rem; } blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #d0d7de; color: #57606a; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    "<article>",
+    `<h1>${renderInline(documentTitle, 0)}</h1>`,
+    ...(toc.length > 0
+      ? ['<nav id="contents">', "<h2>Contents</h2>", "<ol>", ...toc, "</ol>", "</nav>"]
+      : []),
+    body.html,
+    "</article>",
+    '<section id="sources">',
+    "<h2>Sources</h2>",
+    "<ol>",
+    ...result.searchResults.map(
+      (source, index) =>
+        `<li id="source-${index + 1}"><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a> <small>${escapeHtml(source.url)}</small></li>`,
+    ),
+    "</ol>",
+    "</section>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+export function createReportJsonLd(result: DeepResearchResult): DeepResearchReportJsonLd {
+  const report = requireReport(result);
+  const { title, sections } = splitReport(report);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Report",
+    identifier: result.metadata.runId,
+    name: title ?? result.topic,
+    about: result.topic,
+    dateCreated: result.metadata.completedAt,
+    creativeWorkStatus: result.status,
+    text: report,
+    hasPart: sections.map((section, index) => ({
+      "@type": "CreativeWork",
+      position: index + 1,
+      headline: section.heading,
+      text: section.content,
+    })),
+    citation: result.searchResults.map((source, index) => ({
+      "@type": "WebPage",
+      position: index + 1,
+      name: source.title,
+      url: source.url,
+    })),
+  };
+}
+
+function accessedDate(result: DeepResearchResult): Date {
+  const completedAt = new Date(result.metadata.completedAt);
+  return Number.isNaN(completedAt.getTime()) ? new Date(0) : completedAt;
+}
+
+function escapeBibTeX(text: string): string {
+  return text.replace(/\\/g, "\\textbackslash{}").replace(/([{}%&$#_^~])/g, "\\$1");
+}
+
+export function renderBibTeX(result: DeepResearchResult): string {
+  const accessed = accessedDate(result).toISOString().slice(0, 10);
+
+  return result.searchResults
+    .map((source, index) => {
+      const publisher = getHostname(source.url);
+      return [
+        `@misc{source${index + 1},`,
+        `  title = {${escapeBibTeX(source.title)}},`,
+        ...(publisher ? [`  howpublished = {${escapeBibTeX(publisher)}},`] : []),
+        `  url = {${source.url}},`,
+        `  urldate = {${accessed}},`,
+        `  note = {Accessed ${accessed}}`,
+        "}",
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+export function createCslJson(result: DeepResearchResult): DeepResearchCslItem[] {
+  const accessed = accessedDate(result);
+
+  return result.searchResults.map((source, index) => {
+    const publisher = getHostname(source.url);
+    return {
+      id: `source${index + 1}`,
+      type: "webpage",
+      title: source.title,
+      URL: source.url,
+      ...(publisher ? { "container-title": publisher } : {}),
+      accessed: {
+        "date-parts": [
+          [accessed.getUTCFullYear(), accessed.getUTCMonth() + 1, accessed.getUTCDate()],
+        ],
+      },
+    };
+  });
+}
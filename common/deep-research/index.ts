@@ -1,3 +1,7 @@
+export {
+  createFileCheckpointStore,
+  createMemoryCheckpointStore,
+} from "./checkpoint";
 export {
   createDeepResearchAgentFromConfig,
   runDeepResearchFromConfig,
@@ -5,17 +9,79 @@ export {
 } from "./config";
 export { createDeepResearchAgent } from "./createDeepResearchAgent";
 export { createExaSearchExecutor } from "./exa";
+export {
+  createCslJson,
+  createReportJsonLd,
+  renderBibTeX,
+  renderReportHtml,
+} from "./export";
+export { withSourceUrls } from "./output";
+export { defaultPromptTemplates } from "./prompts";
+export { isRetryableError } from "./retry";
+export { defaultReportTemplates } from "./templates";
+export { canonicalizeUrl } from "./urls";
+export { createStopResearchError, isStopResearchError } from "./utils";
 export type {
   CreateDeepResearchAgentConfig,
   DeepResearchAgent,
+  DeepResearchApproval,
+  DeepResearchApprovalHooks,
+  DeepResearchBreadthDecay,
   DeepResearchCallOptions,
+  DeepResearchCheckpoint,
+  DeepResearchCheckpointStore,
+  DeepResearchCitation,
+  DeepResearchCitationIssue,
+  DeepResearchCitationStyle,
+  DeepResearchCitationValidation,
+  DeepResearchClaimVerdict,
+  DeepResearchClaimVerification,
+  DeepResearchClaimVerificationMode,
+  DeepResearchContradiction,
+  DeepResearchCoordinatorMode,
+  DeepResearchCredibility,
+  DeepResearchCredibilityScorer,
+  DeepResearchCredibilityScoring,
+  DeepResearchCslItem,
+  DeepResearchCutShort,
+  DeepResearchDefaultPromptTemplates,
+  DeepResearchDomainPolicy,
   DeepResearchEvent,
+  DeepResearchExplorationStrategy,
+  DeepResearchFailure,
+  DeepResearchFrontierItem,
   DeepResearchInput,
+  DeepResearchLearningCategory,
+  DeepResearchLearningExtraction,
   DeepResearchModelConfig,
+  DeepResearchModelPrice,
+  DeepResearchOrderedEntry,
+  DeepResearchPriceTable,
+  DeepResearchPromptPart,
+  DeepResearchPromptStage,
+  DeepResearchPromptTemplate,
+  DeepResearchPromptTemplates,
+  DeepResearchPromptVariables,
+  DeepResearchRelevanceEvaluation,
+  DeepResearchReportJsonLd,
+  DeepResearchReportSection,
+  DeepResearchReportTemplate,
+  DeepResearchReportTemplateName,
+  DeepResearchReportTemplateOption,
   DeepResearchResult,
   DeepResearchResultMetadata,
+  DeepResearchResumeOptions,
+  DeepResearchRetryPolicy,
+  DeepResearchRetryStage,
   DeepResearchRunConfig,
+  DeepResearchStageUsage,
   DeepResearchStatus,
+  DeepResearchStopReason,
+  DeepResearchThemeSummary,
+  DeepResearchTokenUsage,
+  DeepResearchUsageStage,
+  DeepResearchUrlCanonicalization,
+  DeepResearchUsageSummary,
   Learning,
   MinimalSearchResult,
   ModelReference,
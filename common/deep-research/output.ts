@@ -0,0 +1,63 @@
+import { z } from "zod";
+import type { DeepResearchCitationIssue, MinimalSearchResult } from "./types";
+
+export const sourceUrlsKey = "sourceUrls";
+
+export function withSourceUrls<TSchema extends z.ZodType>(schema: TSchema) {
+  return z.object({
+    value: schema,
+    [sourceUrlsKey]: z
+      .array(z.string())
+      .describe("URLs of the accepted sources that back this value."),
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+export function validateSourceUrls<TOutput>(args: {
+  output: TOutput;
+  searchResults: MinimalSearchResult[];
+  canonicalUrl: (url: string) => string;
+}): { output: TOutput; issues: DeepResearchCitationIssue[] } {
+  const accepted = new Map(
+    args.searchResults.map((result) => [args.canonicalUrl(result.url), result.url]),
+  );
+  const issues: DeepResearchCitationIssue[] = [];
+
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => {
+        if (key !== sourceUrlsKey || !Array.isArray(entry)) {
+          return [key, visit(entry)];
+        }
+
+        const urls: string[] = [];
+        for (const url of entry) {
+          const match = typeof url === "string" ? accepted.get(args.canonicalUrl(url)) : undefined;
+          if (match === undefined) {
+            issues.push({ kind: "unknown-url", value: String(url), action: "stripped" });
+          } else if (!urls.includes(match)) {
+            urls.push(match);
+          }
+        }
+        return [key, urls];
+      }),
+    );
+  };
+
+  return { output: visit(args.output) as TOutput, issues };
+}
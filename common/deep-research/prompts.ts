@@ -0,0 +1,305 @@
+import {
+  buildReportPrompt,
+  buildReportRevisionPrompt,
+  buildThemeSummaryPrompt,
+  buildThemedReportPrompt,
+} from "./report";
+import type {
+  DeepResearchDefaultPromptTemplates,
+  DeepResearchPromptStage,
+  DeepResearchPromptTemplates,
+  DeepResearchPromptVariables,
+} from "./types";
+
+const noSystemPrompt = () => "";
+
+const reportSystemPrompt = () =>
+  "You write precise Markdown research reports for technical users. Stay grounded in the provided sources.";
+
+export const defaultPromptTemplates: DeepResearchDefaultPromptTemplates = {
+  queryGeneration: {
+    system: noSystemPrompt,
+    prompt: ({ topic, breadth, languages }) =>
+      [
+        languages.length > 0
+          ? `Generate up to ${breadth} web research queries in each of these languages: ${languages.join(", ")}.`
+          : `Generate up to ${breadth} web research queries.`,
+        "Return only queries that would help investigate the topic deeply.",
+        "Prefer diverse, source-seeking queries over rephrasings.",
+        ...(languages.length > 0
+          ? [
+              "Phrase each query the way a native speaker would search, not as a word-for-word translation, so it finds sources published in that language.",
+            ]
+          : []),
+        `Topic: ${topic}`,
+      ].join("\n"),
+  },
+  relevanceEvaluation: {
+    system: noSystemPrompt,
+    prompt: ({ query, candidate, acceptedUrls }) =>
+      [
+        `Evaluate whether this search result is useful for the query "${query}".`,
+        "Mark it irrelevant if it is redundant, too generic, or clearly off-topic.",
+        "",
+        "<search_result>",
+        JSON.stringify(candidate, null, 2),
+        "</search_result>",
+        "",
+        "<accepted_urls>",
+        JSON.stringify(acceptedUrls, null, 2),
+        "</accepted_urls>",
+      ].join("\n"),
+  },
+  batchedRelevanceEvaluation: {
+    system: noSystemPrompt,
+    prompt: ({ query, candidates, acceptedUrls }) =>
+      [
+        `Evaluate whether each of these search results is useful for the query "${query}".`,
+        "Return one evaluation per search result, identified by its url.",
+        "Mark a result irrelevant if it is redundant, too generic, or clearly off-topic.",
+        "Score relevance from 0 (useless) to 1 (essential).",
+        "",
+        "<search_results>",
+        JSON.stringify(candidates, null, 2),
+        "</search_results>",
+        "",
+        "<accepted_urls>",
+        JSON.stringify(acceptedUrls, null, 2),
+        "</accepted_urls>",
+      ].join("\n"),
+  },
+  coordinator: {
+    system: ({ minAcceptedResults, maxSearchReformulations }) =>
+      [
+        "You coordinate web research for a single query.",
+        "Call searchWeb, then call evaluateSearchResults on what it found.",
+        `If fewer than ${minAcceptedResults} results have been accepted, you may call searchWeb again with a reformulated query and evaluate those results too, up to ${maxSearchReformulations} times.`,
+        "Finish with a short confirmation once enough results are accepted or a new search would not help.",
+      ].join("\n"),
+    prompt: ({ query }) => `Research this query: ${query}`,
+  },
+  credibilityAssessment: {
+    system: noSystemPrompt,
+    prompt: ({ sources }) =>
+      [
+        "Rate the credibility of each web source from 0 to 1.",
+        "Consider the publisher's reputation, editorial standards and whether it is a primary source.",
+        "Peer-reviewed journals and official statistics rate high; content farms, anonymous posts and marketing pages rate low.",
+        "",
+        JSON.stringify(
+          sources.map(({ id, title, url, excerpt }) => ({ id, title, url, excerpt })),
+          null,
+          2,
+        ),
+      ].join("\n"),
+  },
+  learningExtraction: {
+    system: noSystemPrompt,
+    prompt: ({ query, source, mode, maxLearnings, part, outputLanguage }) =>
+      [
+        ...(mode === "claims"
+          ? [
+              `Extract up to ${maxLearnings} atomic learnings from this relevant source for the query "${query}".`,
+              "Each learning must state a single claim that stands on its own, with concrete names, numbers and dates where the source gives them.",
+              "Categorize each learning as a fact, statistic, opinion or forecast.",
+              "Extract fewer learnings when the source does not support more distinct claims.",
+              "For each learning, propose concise follow-up questions that would deepen the investigation.",
+            ]
+          : [
+              `Extract one high-value learning from this relevant source for the query "${query}".`,
+              "Also propose concise follow-up questions that would deepen the investigation.",
+            ]),
+        ...(part
+          ? [`The source is long, so this is only part ${part.index + 1} of ${part.total}.`]
+          : []),
+        ...(outputLanguage
+          ? [
+              `Write every learning and follow-up question in ${outputLanguage}.`,
+              `If the source is not in ${outputLanguage}, set originalQuote to the passage that supports the learning, copied verbatim in the source's language; otherwise set it to null.`,
+            ]
+          : []),
+        "",
+        JSON.stringify(source, null, 2),
+      ].join("\n"),
+  },
+  learningReduction: {
+    system: noSystemPrompt,
+    prompt: ({ query, source, mode, maxLearnings, learnings, outputLanguage }) =>
+      [
+        mode === "claims"
+          ? `Merge these learnings, extracted from consecutive parts of one source for the query "${query}", into up to ${maxLearnings} deduplicated atomic learnings.`
+          : `Merge these learnings, extracted from consecutive parts of one source for the query "${query}", into the single most valuable learning for the whole source.`,
+        "Combine duplicate and overlapping claims, and keep concrete names, numbers and dates.",
+        "Keep the most useful follow-up questions.",
+        ...(outputLanguage
+          ? [
+              `Write the merged learnings in ${outputLanguage}, and keep the originalQuote of the learnings each one is based on, or null when there is none.`,
+            ]
+          : []),
+        "",
+        `Source: ${source.title} (${source.url})`,
+        "",
+        JSON.stringify(learnings, null, 2),
+      ].join("\n"),
+  },
+  followUpScoring: {
+    system: noSystemPrompt,
+    prompt: ({ topic, candidates, learnings }) =>
+      [
+        `Score each candidate follow-up research direction for the topic "${topic}".`,
+        "Use a score from 0 to 1 for the expected information gain over what is already known.",
+        "Prefer directions that fill gaps or test uncertain claims; penalize ones the learnings already answer.",
+        "",
+        "<known_learnings>",
+        JSON.stringify(
+          learnings.map((learning) => learning.learning),
+          null,
+          2,
+        ),
+        "</known_learnings>",
+        "",
+        "<candidates>",
+        JSON.stringify(
+          candidates.map((candidate, index) => ({ index, candidate })),
+          null,
+          2,
+        ),
+        "</candidates>",
+      ].join("\n"),
+  },
+  contradictionDetection: {
+    system: noSystemPrompt,
+    prompt: ({ topic, learnings, outputLanguage }) =>
+      [
+        `Find contradictions between these research learnings for a report on "${topic}".`,
+        "First group learnings that address the same subject, such as the same figure, date or event.",
+        "Report a contradiction only when learnings from different sources cannot all be true, for example different values for the same quantity or different dates for the same event.",
+        "Differences in scope, time period or definition are not contradictions unless the sources claim to measure the same thing.",
+        "For each contradiction give a short subject, a neutral description of the disagreement, and the ids of the conflicting learnings.",
+        "Return an empty list when the learnings agree.",
+        ...(outputLanguage
+          ? [`Write subjects and descriptions in ${outputLanguage}.`]
+          : []),
+        "",
+        JSON.stringify(learnings, null, 2),
+      ].join("\n"),
+  },
+  report: {
+    system: reportSystemPrompt,
+    prompt: (variables) => buildReportPrompt(variables),
+  },
+  themeClustering: {
+    system: noSystemPrompt,
+    prompt: ({ topic, learnings }) =>
+      [
+        `Group these research learnings for a report on "${topic}" into coherent themes.`,
+        "Assign every learning id to exactly one theme, and use short descriptive theme names.",
+        "",
+        JSON.stringify(learnings, null, 2),
+      ].join("\n"),
+  },
+  themeSummary: {
+    system: reportSystemPrompt,
+    prompt: (variables) => buildThemeSummaryPrompt(variables),
+  },
+  themedReport: {
+    system: reportSystemPrompt,
+    prompt: (variables) => buildThemedReportPrompt(variables),
+  },
+  reportRevision: {
+    system: reportSystemPrompt,
+    prompt: (variables) => buildReportRevisionPrompt(variables),
+  },
+  structuredOutput: {
+    system: () =>
+      "You turn research findings into structured data. Stay grounded in the provided sources.",
+    prompt: ({ topic, queries, sources, learnings, contradictions, outputLanguage }) =>
+      [
+        `Fill in the requested structure from this research on "${topic}".`,
+        "Use only what the learnings and sources support; leave optional fields empty rather than guessing.",
+        "Wherever the structure has a sourceUrls field, list the URLs of the sources that back that value, copied exactly from the sources below.",
+        ...(contradictions.length > 0
+          ? ["Where the sources disagree, reflect the disagreement instead of picking a side silently."]
+          : []),
+        ...(outputLanguage ? [`Write all text values in ${outputLanguage}.`] : []),
+        "",
+        "<queries>",
+        JSON.stringify(queries, null, 2),
+        "</queries>",
+        "",
+        "<learnings>",
+        JSON.stringify(
+          learnings.map(({ learning, sourceUrl, originalQuote }) => ({
+            learning,
+            sourceUrl,
+            ...(originalQuote ? { originalQuote } : {}),
+          })),
+          null,
+          2,
+        ),
+        "</learnings>",
+        ...(contradictions.length > 0
+          ? ["", "<contradictions>", JSON.stringify(contradictions, null, 2), "</contradictions>"]
+          : []),
+        "",
+        "<sources>",
+        JSON.stringify(
+          sources.map(({ title, url, content, credibility }) => ({
+            title,
+            url,
+            ...(credibility ? { credibility: credibility.score } : {}),
+            content,
+          })),
+          null,
+          2,
+        ),
+        "</sources>",
+      ].join("\n"),
+  },
+  claimVerification: {
+    system: noSystemPrompt,
+    prompt: ({ claims, evidence, outputLanguage }) =>
+      [
+        "Check each claim from a research report against the evidence below.",
+        "A claim is supported when the learnings or source content state it, partially supported when they back only part of it, and unsupported otherwise.",
+        "Give the URL of the source that best backs the claim, or null when none does.",
+        "For unsupported claims, write a revision that keeps only what the evidence supports, or an empty string when nothing can be kept; otherwise repeat the claim.",
+        ...(outputLanguage
+          ? [
+              `The claims are in ${outputLanguage}; write explanations and revisions in ${outputLanguage} too, even when the evidence is in another language.`,
+            ]
+          : []),
+        "",
+        "<claims>",
+        JSON.stringify(claims, null, 2),
+        "</claims>",
+        "",
+        "<evidence>",
+        JSON.stringify(evidence, null, 2),
+        "</evidence>",
+      ].join("\n"),
+  },
+};
+
+export function renderPrompt<TStage extends DeepResearchPromptStage>(
+  stage: TStage,
+  variables: DeepResearchPromptVariables[TStage],
+  overrides: DeepResearchPromptTemplates = {},
+): { system?: string; prompt: string } {
+  const defaults = defaultPromptTemplates[stage];
+  const override = overrides[stage];
+  const resolve = (part: "system" | "prompt"): string => {
+    const defaultText = defaults[part](variables);
+    const custom = override?.[part];
+    if (custom === undefined) {
+      return defaultText;
+    }
+    return typeof custom === "string" ? custom : custom(variables, defaultText);
+  };
+
+  const system = resolve("system");
+  return {
+    ...(system ? { system } : {}),
+    prompt: resolve("prompt"),
+  };
+}
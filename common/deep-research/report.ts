@@ -1,30 +1,232 @@
-import type { Learning, MinimalSearchResult } from "./types";
+import {
+  conflictingEvidencePosition,
+  defaultReportTemplates,
+  getConflictingEvidenceHeading,
+  getReportSections,
+} from "./templates";
+import type {
+  DeepResearchCitation,
+  DeepResearchContradiction,
+  DeepResearchReportTemplate,
+  DeepResearchThemeSummary,
+  Learning,
+  MinimalSearchResult,
+} from "./types";
+
+type SourceReference = Pick<MinimalSearchResult, "title" | "url" | "credibility">;
+
+function reportStructure(
+  template: DeepResearchReportTemplate = defaultReportTemplates.standard,
+  contradictions?: DeepResearchContradiction[],
+): string[] {
+  const sections = getReportSections(template).map(
+    ({ heading, guidance }) => `## ${heading}${guidance ? `: ${guidance}` : ""}`,
+  );
+  if (contradictions && contradictions.length > 0) {
+    sections.splice(
+      conflictingEvidencePosition(template),
+      0,
+      `## ${getConflictingEvidenceHeading(template)}`,
+    );
+  }
+
+  return [
+    "Generate a research report in Markdown.",
+    "Use the following structure exactly:",
+    ...["# Title", ...sections].map((section, index) => `${index + 1}. ${section}`),
+    ...(template.targetWords ? [`Aim for about ${template.targetWords} words.`] : []),
+    ...(template.tone ? [`Tone: ${template.tone}.`] : []),
+  ];
+}
+
+function languageInstructions(outputLanguage?: string | null): string[] {
+  return outputLanguage
+    ? [
+        `Write the report in ${outputLanguage}, translating material from sources in other languages. Keep the section headings exactly as given, without translating them.`,
+      ]
+    : [];
+}
+
+function credibilityInstructions(sources: SourceReference[]): string[] {
+  return sources.some((source) => source.credibility)
+    ? [
+        "Sources carry credibility scores from 0 to 1. Give more weight to higher-scoring sources, prefer them when sources disagree, and say so when a claim rests only on sources scoring below 0.5.",
+      ]
+    : [];
+}
+
+function contradictionInstructions(contradictions?: DeepResearchContradiction[]): string[] {
+  return contradictions && contradictions.length > 0
+    ? [
+        "The sources disagree on the points listed under contradictions.",
+        "Describe each conflict in the Conflicting Evidence section with every position and its sources, and do not silently pick one position elsewhere in the report.",
+      ]
+    : [];
+}
+
+function isNumbered(citations?: DeepResearchCitation[]): citations is DeepResearchCitation[] {
+  return citations !== undefined && citations.length > 0;
+}
+
+function citationInstructions(citations?: DeepResearchCitation[]): string[] {
+  return isNumbered(citations)
+    ? [
+        "Cite sources only with numbered markers such as [1] or [2, 5], using the source ids given below.",
+        "Do not write URLs or a references section; the references are generated automatically.",
+      ]
+    : ["Cite source URLs inline where relevant."];
+}
+
+function withSourceIds<T extends { url: string }>(
+  sources: T[],
+  citations?: DeepResearchCitation[],
+): Array<T & { id?: number }> {
+  if (!isNumbered(citations)) {
+    return sources;
+  }
+
+  return sources.map((source) => ({
+    id: citations.find((citation) => citation.url === source.url)?.id,
+    ...source,
+  }));
+}
+
+function withLearningSourceIds(
+  learnings: Learning[],
+  citations?: DeepResearchCitation[],
+): Array<Learning & { sourceId?: number }> {
+  if (!isNumbered(citations)) {
+    return learnings;
+  }
+
+  return learnings.map((learning) => ({
+    ...learning,
+    sourceId: citations.find((citation) => citation.url === learning.sourceUrl)?.id,
+  }));
+}
+
+export function estimatePromptTokens(prompt: string): number {
+  return Math.ceil(prompt.length / 4);
+}
 
 export function buildReportPrompt(args: {
   topic: string;
   queries: string[];
   searchResults: MinimalSearchResult[];
   learnings: Learning[];
+  citations?: DeepResearchCitation[];
+  contradictions?: DeepResearchContradiction[];
+  template?: DeepResearchReportTemplate;
+  outputLanguage?: string | null;
 }): string {
   const payload = {
     topic: args.topic,
     queries: args.queries,
-    searchResults: args.searchResults,
-    learnings: args.learnings,
+    searchResults: withSourceIds(args.searchResults, args.citations),
+    learnings: withLearningSourceIds(args.learnings, args.citations),
+    ...(args.contradictions?.length ? { contradictions: args.contradictions } : {}),
   };
 
   return [
-    "Generate a research report in Markdown.",
-    "Use the following structure exactly:",
-    "1. # Title",
-    "2. ## Executive Summary",
-    "3. ## Key Findings",
-    "4. ## Evidence and Sources",
-    "5. ## Open Questions",
-    "6. ## Recommended Next Steps",
-    "Cite source URLs inline where relevant.",
+    ...reportStructure(args.template, args.contradictions),
+    ...languageInstructions(args.outputLanguage),
+    ...citationInstructions(args.citations),
+    ...credibilityInstructions(args.searchResults),
+    ...contradictionInstructions(args.contradictions),
     "Base every claim on the supplied research context.",
+    "Present learnings categorized as opinion or forecast as such, not as established facts.",
     "",
     JSON.stringify(payload, null, 2),
   ].join("\n");
 }
+
+export function buildThemeSummaryPrompt(args: {
+  topic: string;
+  theme: string;
+  material: Learning[] | DeepResearchThemeSummary[];
+  sources: SourceReference[];
+  citations?: DeepResearchCitation[];
+  outputLanguage?: string | null;
+}): string {
+  const material = args.material.every((item) => "sourceUrl" in item)
+    ? withLearningSourceIds(args.material as Learning[], args.citations)
+    : args.material;
+
+  return [
+    `Summarize the research material on the theme "${args.theme}" for a report on "${args.topic}".`,
+    "Write a few dense Markdown paragraphs grounded only in the material below.",
+    isNumbered(args.citations)
+      ? "Keep concrete names, numbers and dates, and cite the source id as a [n] marker after every claim it supports."
+      : "Keep concrete names, numbers and dates, and cite the source URL inline after every claim it supports.",
+    "Keep opinions and forecasts attributed as such.",
+    ...(args.outputLanguage
+      ? [
+          `Write the summary in ${args.outputLanguage}, translating material from sources in other languages.`,
+        ]
+      : []),
+    "",
+    JSON.stringify(
+      {
+        theme: args.theme,
+        sources: withSourceIds(args.sources, args.citations),
+        material,
+      },
+      null,
+      2,
+    ),
+  ].join("\n");
+}
+
+export function buildThemedReportPrompt(args: {
+  topic: string;
+  queries: string[];
+  sources: SourceReference[];
+  themes: DeepResearchThemeSummary[];
+  citations?: DeepResearchCitation[];
+  contradictions?: DeepResearchContradiction[];
+  template?: DeepResearchReportTemplate;
+  outputLanguage?: string | null;
+}): string {
+  const payload = {
+    topic: args.topic,
+    queries: args.queries,
+    sources: withSourceIds(args.sources, args.citations),
+    themes: args.themes,
+    ...(args.contradictions?.length ? { contradictions: args.contradictions } : {}),
+  };
+
+  return [
+    ...reportStructure(args.template, args.contradictions),
+    ...languageInstructions(args.outputLanguage),
+    ...citationInstructions(args.citations),
+    ...credibilityInstructions(args.sources),
+    ...contradictionInstructions(args.contradictions),
+    "Base every claim on the supplied research context.",
+    "The research context was condensed into theme summaries that already cite their sources; carry those citations into the report.",
+    "",
+    JSON.stringify(payload, null, 2),
+  ].join("\n");
+}
+
+export function buildReportRevisionPrompt(args: {
+  topic: string;
+  report: string;
+  template: DeepResearchReportTemplate;
+  missingSections: string[];
+  outputLanguage?: string | null;
+}): string {
+  return [
+    `Revise this Markdown research report on "${args.topic}" so that it follows the required structure.`,
+    `Required ## sections, in order: ${getReportSections(args.template)
+      .map((section) => section.heading)
+      .join(", ")}.`,
+    `Missing sections: ${args.missingSections.join(", ")}.`,
+    "Keep the title, all existing content and every citation. Fill the missing sections from material already in the report, and do not add new facts.",
+    ...(args.outputLanguage
+      ? [`Keep the report in ${args.outputLanguage}, including the sections you add.`]
+      : []),
+    "Return only the revised report.",
+    "",
+    args.report,
+  ].join("\n");
+}
@@ -0,0 +1,190 @@
+import { APICallError, RetryError } from "ai";
+import type { DeepResearchRetryPolicy, DeepResearchRetryStage } from "./types";
+import { isAbortError, isStopResearchError, throwIfAborted } from "./utils";
+
+export type RetryRunner = <T>(
+  stage: DeepResearchRetryStage,
+  task: () => Promise<T>,
+  details?: { query?: string },
+) => Promise<T>;
+
+export interface RetryNotice {
+  stage: DeepResearchRetryStage;
+  query?: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+const failedStages = new WeakMap<object, DeepResearchRetryStage>();
+
+export function getFailedStage(
+  error: unknown,
+): DeepResearchRetryStage | undefined {
+  return error && typeof error === "object" ? failedStages.get(error) : undefined;
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429]);
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function readStatusCode(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+
+  const candidate = error as { statusCode?: unknown; status?: unknown };
+  if (typeof candidate.statusCode === "number") {
+    return candidate.statusCode;
+  }
+  return typeof candidate.status === "number" ? candidate.status : undefined;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error) || isStopResearchError(error)) {
+    return false;
+  }
+
+  if (RetryError.isInstance(error)) {
+    return isRetryableError(error.lastError);
+  }
+
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+
+  const statusCode = readStatusCode(error);
+  if (statusCode !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(statusCode) || statusCode >= 500;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === "string" && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  if (error instanceof Error && error.cause !== undefined) {
+    return isRetryableError(error.cause);
+  }
+
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+function readRetryAfterMs(error: unknown): number | undefined {
+  const lastError = RetryError.isInstance(error) ? error.lastError : error;
+  if (!APICallError.isInstance(lastError)) {
+    return undefined;
+  }
+
+  const headers = lastError.responseHeaders ?? {};
+  const retryAfterMs = Number(headers["retry-after-ms"]);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (retryAfter == null) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1_000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+export function resolveRetryPolicy(
+  policy?: Partial<DeepResearchRetryPolicy>,
+): DeepResearchRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy?.maxAttempts ?? 3)),
+    initialDelayMs: policy?.initialDelayMs ?? 1_000,
+    maxDelayMs: policy?.maxDelayMs ?? 30_000,
+    backoffMultiplier: policy?.backoffMultiplier ?? 2,
+    jitter: Math.min(1, Math.max(0, policy?.jitter ?? 0.2)),
+    isRetryable: policy?.isRetryable ?? isRetryableError,
+  };
+}
+
+export function computeRetryDelay(
+  policy: DeepResearchRetryPolicy,
+  attempt: number,
+  error?: unknown,
+): number {
+  const retryAfterMs = readRetryAfterMs(error);
+  if (retryAfterMs !== undefined) {
+    return Math.min(policy.maxDelayMs, retryAfterMs);
+  }
+
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1),
+  );
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+function sleep(delayMs: number, abortSignal?: AbortSignal): Promise<void> {
+  throwIfAborted(abortSignal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortSignal?.reason);
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createRetryRunner(args: {
+  policy: DeepResearchRetryPolicy;
+  abortSignal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => Promise<void> | void;
+}): RetryRunner {
+  const { policy, abortSignal } = args;
+
+  return async (stage, task, details) => {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await task();
+      } catch (error) {
+        if (
+          attempt >= policy.maxAttempts ||
+          abortSignal?.aborted ||
+          !policy.isRetryable(error)
+        ) {
+          if (error && typeof error === "object" && !failedStages.has(error)) {
+            failedStages.set(error, stage);
+          }
+          throw error;
+        }
+
+        const delayMs = computeRetryDelay(policy, attempt, error);
+        await args.onRetry?.({
+          stage,
+          query: details?.query,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error,
+        });
+        await sleep(delayMs, abortSignal);
+      }
+    }
+  };
+}
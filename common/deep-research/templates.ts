@@ -0,0 +1,155 @@
+import type {
+  DeepResearchReportSection,
+  DeepResearchReportTemplate,
+  DeepResearchReportTemplateName,
+  DeepResearchReportTemplateOption,
+} from "./types";
+
+export const defaultReportTemplates: Record<
+  DeepResearchReportTemplateName,
+  DeepResearchReportTemplate
+> = {
+  standard: {
+    name: "standard",
+    sections: [
+      "Executive Summary",
+      "Key Findings",
+      "Evidence and Sources",
+      "Open Questions",
+      "Recommended Next Steps",
+    ],
+  },
+  "executive-brief": {
+    name: "executive-brief",
+    sections: [
+      { heading: "Bottom Line", guidance: "Two or three sentences a decision maker can act on." },
+      { heading: "Key Points", guidance: "Five bullets at most, each with its source." },
+      { heading: "Implications", guidance: "What changes for the business and how soon." },
+      { heading: "Recommendations", guidance: "Concrete, prioritized actions." },
+    ],
+    targetWords: 500,
+    tone: "concise and decision-oriented, written for executives without technical background",
+  },
+  "literature-review": {
+    name: "literature-review",
+    sections: [
+      { heading: "Introduction", guidance: "The research question and why it matters." },
+      {
+        heading: "Scope and Sources",
+        guidance: "What kinds of sources were reviewed and their limits.",
+      },
+      { heading: "Themes in the Literature", guidance: "One subsection per major theme." },
+      {
+        heading: "Agreements and Debates",
+        guidance: "Where sources converge and where they disagree.",
+      },
+      { heading: "Gaps in the Research" },
+      { heading: "Conclusion" },
+    ],
+    targetWords: 1800,
+    tone: "academic and neutral, attributing every position to its sources",
+  },
+  "competitive-analysis": {
+    name: "competitive-analysis",
+    sections: [
+      {
+        heading: "Market Overview",
+        guidance: "Size, growth and segments, with figures where available.",
+      },
+      { heading: "Key Players", guidance: "The main competitors and their positioning." },
+      {
+        heading: "Comparison",
+        guidance: "A Markdown table comparing the players on the dimensions that matter.",
+      },
+      { heading: "Strengths and Weaknesses" },
+      { heading: "Opportunities and Threats" },
+      { heading: "Strategic Implications" },
+    ],
+    targetWords: 1200,
+    tone: "analytical and comparative",
+  },
+  "due-diligence-memo": {
+    name: "due-diligence-memo",
+    sections: [
+      { heading: "Summary", guidance: "The overall assessment in a few sentences." },
+      { heading: "Background", guidance: "What the subject is and how it works." },
+      {
+        heading: "Technical Assessment",
+        guidance: "Architecture, maturity and scalability, based on the evidence.",
+      },
+      {
+        heading: "Risks and Red Flags",
+        guidance: "Each risk with its likelihood, impact and source.",
+      },
+      { heading: "Open Questions", guidance: "What must be verified before a decision." },
+      { heading: "Recommendation" },
+    ],
+    targetWords: 1200,
+    tone: "skeptical and precise, separating verified facts from claims made by the subject",
+  },
+};
+
+const defaultConflictingEvidenceHeading = "Conflicting Evidence";
+
+export function getConflictingEvidenceHeading(template: DeepResearchReportTemplate): string {
+  return template.conflictingEvidenceHeading ?? defaultConflictingEvidenceHeading;
+}
+
+export function conflictingEvidencePosition(template: DeepResearchReportTemplate): number {
+  const sections = getReportSections(template);
+  const evidence = sections.findLastIndex((section) => /evidence/i.test(section.heading));
+  return evidence >= 0 ? evidence + 1 : Math.max(0, sections.length - 1);
+}
+
+export function getReportSections(
+  template: DeepResearchReportTemplate,
+): DeepResearchReportSection[] {
+  return template.sections.map((section) =>
+    typeof section === "string" ? { heading: section } : section,
+  );
+}
+
+export function resolveReportTemplate(
+  option: DeepResearchReportTemplateOption = "standard",
+  customTemplates: Record<string, DeepResearchReportTemplate> = {},
+): DeepResearchReportTemplate {
+  const template =
+    typeof option === "string"
+      ? (customTemplates[option] ??
+        defaultReportTemplates[option as DeepResearchReportTemplateName])
+      : option;
+  if (!template) {
+    throw new Error(`Unknown report template "${String(option)}".`);
+  }
+  if (template.sections.length === 0) {
+    throw new Error(`Report template "${template.name}" declares no sections.`);
+  }
+
+  return template;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading
+    .replace(/[*_`]/g, "")
+    .replace(/^\d+[.)]\s*/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export function findMissingSections(
+  report: string,
+  template: DeepResearchReportTemplate,
+): string[] {
+  const headings = new Set(
+    report
+      .split("\n")
+      .map((line) => /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line.trim())?.[1])
+      .filter((heading) => heading !== undefined)
+      .map(normalizeHeading),
+  );
+
+  return getReportSections(template)
+    .map((section) => section.heading)
+    .filter((heading) => !headings.has(normalizeHeading(heading)));
+}
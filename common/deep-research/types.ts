@@ -1,31 +1,367 @@
 import type { LanguageModel } from "ai";
+import type { z } from "zod";
 
 export type DeepResearchInput = string | { topic: string } | { prompt: string };
 
 export type SupportedModelProvider = "anthropic" | "google" | "openai";
 
-export type DeepResearchStatus = "completed" | "aborted";
+export type DeepResearchExplorationStrategy =
+  | "depth-first"
+  | "breadth-first"
+  | "best-first";
+
+export type DeepResearchBreadthDecay =
+  | "halve"
+  | "decrement"
+  | "constant"
+  | ((args: { breadth: number; remainingDepth: number }) => number);
+
+export type DeepResearchRelevanceEvaluation = "per-result" | "batched";
+
+export type DeepResearchCoordinatorMode = "deterministic" | "agentic";
+
+export interface DeepResearchUrlCanonicalization {
+  stripParams?: Array<string | RegExp>;
+  rules?: Array<(url: URL) => URL | void>;
+}
+
+export interface DeepResearchDomainPolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+export type DeepResearchCredibilityScoring = "off" | "static" | "model";
+
+export interface DeepResearchCredibility {
+  score: number;
+  method: "domain-tier" | "model" | "custom";
+  reason: string;
+}
+
+export type DeepResearchCredibilityScorer = (args: {
+  query: string;
+  result: MinimalSearchResult;
+  abortSignal?: AbortSignal;
+}) =>
+  | Promise<Pick<DeepResearchCredibility, "score" | "reason"> | null>
+  | Pick<DeepResearchCredibility, "score" | "reason">
+  | null;
+
+export type DeepResearchReportTemplateName =
+  | "standard"
+  | "executive-brief"
+  | "literature-review"
+  | "competitive-analysis"
+  | "due-diligence-memo";
+
+export interface DeepResearchReportSection {
+  heading: string;
+  guidance?: string;
+}
+
+export interface DeepResearchReportTemplate {
+  name: string;
+  sections: Array<string | DeepResearchReportSection>;
+  targetWords?: number;
+  tone?: string;
+  conflictingEvidenceHeading?: string;
+}
+
+export type DeepResearchReportTemplateOption =
+  | DeepResearchReportTemplateName
+  | (string & {})
+  | DeepResearchReportTemplate;
+
+export type DeepResearchCitationStyle = "inline" | "numbered";
+
+export type DeepResearchCitationValidation = "strip" | "flag";
+
+export interface DeepResearchCitation {
+  id: number;
+  title: string;
+  url: string;
+  cited: boolean;
+}
+
+export interface DeepResearchCitationIssue {
+  kind: "unknown-source-id" | "unknown-url";
+  value: string;
+  action: "stripped" | "flagged";
+}
+
+export type DeepResearchClaimVerificationMode =
+  | "off"
+  | "verify"
+  | "annotate"
+  | "rewrite";
+
+export type DeepResearchClaimVerdict =
+  | "supported"
+  | "partially-supported"
+  | "unsupported";
+
+export interface DeepResearchClaimVerification {
+  claim: string;
+  verdict: DeepResearchClaimVerdict;
+  sourceUrl: string | null;
+  explanation: string;
+  revision?: string;
+}
+
+export interface DeepResearchContradiction {
+  subject: string;
+  description: string;
+  claims: Array<{
+    learning: string;
+    sourceUrl: string;
+  }>;
+  sourceUrls: string[];
+}
+
+export type DeepResearchStatus = "completed" | "partial" | "aborted";
+
+export type DeepResearchStopReason = "deadline" | "stop-requested" | "budget";
 
 export interface MinimalSearchResult {
   title: string;
   url: string;
   content: string;
+  mirrors?: string[];
+  credibility?: DeepResearchCredibility;
 }
 
+export type DeepResearchLearningCategory =
+  | "fact"
+  | "statistic"
+  | "opinion"
+  | "forecast";
+
+export type DeepResearchLearningExtraction = "single" | "claims";
+
 export interface Learning {
   query: string;
   sourceUrl: string;
   learning: string;
   followUpQuestions: string[];
+  category?: DeepResearchLearningCategory;
+  originalQuote?: string;
+}
+
+export interface DeepResearchThemeSummary {
+  theme: string;
+  summary: string;
+  sourceUrls: string[];
+}
+
+type SourceReference = Pick<MinimalSearchResult, "title" | "url" | "credibility">;
+
+type IndexedLearning = Pick<Learning, "learning" | "sourceUrl"> & { id: number };
+
+export interface DeepResearchPromptVariables {
+  queryGeneration: {
+    topic: string;
+    breadth: number;
+    languages: string[];
+  };
+  relevanceEvaluation: {
+    query: string;
+    candidate: MinimalSearchResult;
+    acceptedUrls: string[];
+  };
+  batchedRelevanceEvaluation: {
+    query: string;
+    candidates: MinimalSearchResult[];
+    acceptedUrls: string[];
+  };
+  coordinator: {
+    query: string;
+    minAcceptedResults: number;
+    maxSearchReformulations: number;
+  };
+  credibilityAssessment: {
+    query: string;
+    sources: Array<SourceReference & { id: number; excerpt: string }>;
+  };
+  learningExtraction: {
+    query: string;
+    source: MinimalSearchResult;
+    mode: DeepResearchLearningExtraction;
+    maxLearnings: number;
+    part: { index: number; total: number } | null;
+    outputLanguage: string | null;
+  };
+  learningReduction: {
+    query: string;
+    source: MinimalSearchResult;
+    mode: DeepResearchLearningExtraction;
+    maxLearnings: number;
+    learnings: Array<
+      Pick<Learning, "learning" | "category" | "followUpQuestions" | "originalQuote">
+    >;
+    outputLanguage: string | null;
+  };
+  followUpScoring: {
+    topic: string;
+    candidates: string[];
+    learnings: Learning[];
+  };
+  contradictionDetection: {
+    topic: string;
+    learnings: IndexedLearning[];
+    outputLanguage: string | null;
+  };
+  report: {
+    topic: string;
+    queries: string[];
+    searchResults: MinimalSearchResult[];
+    learnings: Learning[];
+    citations: DeepResearchCitation[];
+    contradictions: DeepResearchContradiction[];
+    template: DeepResearchReportTemplate;
+    outputLanguage: string | null;
+  };
+  themeClustering: {
+    topic: string;
+    learnings: IndexedLearning[];
+  };
+  themeSummary: {
+    topic: string;
+    theme: string;
+    material: Learning[] | DeepResearchThemeSummary[];
+    sources: SourceReference[];
+    citations: DeepResearchCitation[];
+    outputLanguage: string | null;
+  };
+  themedReport: {
+    topic: string;
+    queries: string[];
+    sources: SourceReference[];
+    themes: DeepResearchThemeSummary[];
+    citations: DeepResearchCitation[];
+    contradictions: DeepResearchContradiction[];
+    template: DeepResearchReportTemplate;
+    outputLanguage: string | null;
+  };
+  reportRevision: {
+    topic: string;
+    report: string;
+    template: DeepResearchReportTemplate;
+    missingSections: string[];
+    outputLanguage: string | null;
+  };
+  structuredOutput: {
+    topic: string;
+    queries: string[];
+    sources: MinimalSearchResult[];
+    learnings: Learning[];
+    contradictions: DeepResearchContradiction[];
+    outputLanguage: string | null;
+  };
+  claimVerification: {
+    topic: string;
+    claims: Array<{ id: number; claim: string }>;
+    evidence: {
+      learnings: Array<Pick<Learning, "learning" | "sourceUrl">>;
+      sources: MinimalSearchResult[];
+    };
+    outputLanguage: string | null;
+  };
+}
+
+export type DeepResearchPromptStage = keyof DeepResearchPromptVariables;
+
+export type DeepResearchPromptPart<TVariables> =
+  | string
+  | ((variables: TVariables, defaultText: string) => string);
+
+export interface DeepResearchPromptTemplate<TVariables> {
+  system?: DeepResearchPromptPart<TVariables>;
+  prompt?: DeepResearchPromptPart<TVariables>;
 }
 
+export type DeepResearchPromptTemplates = {
+  [TStage in DeepResearchPromptStage]?: DeepResearchPromptTemplate<
+    DeepResearchPromptVariables[TStage]
+  >;
+};
+
+export type DeepResearchDefaultPromptTemplates = {
+  [TStage in DeepResearchPromptStage]: {
+    system: (variables: DeepResearchPromptVariables[TStage]) => string;
+    prompt: (variables: DeepResearchPromptVariables[TStage]) => string;
+  };
+};
+
 export interface ModelReference {
   provider?: string;
   modelId: string;
 }
 
+export type DeepResearchUsageStage =
+  | "query-generation"
+  | "coordinator"
+  | "relevance-evaluation"
+  | "credibility-assessment"
+  | "learning-extraction"
+  | "follow-up-scoring"
+  | "contradiction-detection"
+  | "synthesis"
+  | "verification";
+
+export type DeepResearchRetryStage = DeepResearchUsageStage | "search";
+
+export interface DeepResearchRetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: number;
+  isRetryable: (error: unknown) => boolean;
+}
+
+export interface DeepResearchTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface DeepResearchStageUsage extends DeepResearchTokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface DeepResearchUsageSummary extends DeepResearchStageUsage {
+  stages: Record<DeepResearchUsageStage, DeepResearchStageUsage>;
+  budgetExhausted: boolean;
+}
+
+export interface DeepResearchModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+export type DeepResearchPriceTable = Record<string, DeepResearchModelPrice>;
+
+export interface DeepResearchCutShort {
+  reason: DeepResearchStopReason;
+  stoppedAt: string;
+  pendingTopics: number;
+  pendingQueries: string[];
+  pendingSources: string[];
+}
+
+export interface DeepResearchFailure {
+  kind: "query" | "source";
+  stage: DeepResearchRetryStage;
+  query: string;
+  url?: string;
+  error: string;
+  failedAt: string;
+}
+
 export interface DeepResearchResultMetadata {
   status: DeepResearchStatus;
+  runId: string;
   depth: number;
   breadth: number;
   startedAt: string;
@@ -34,21 +370,100 @@ export interface DeepResearchResultMetadata {
   synthesisModel: ModelReference;
   totalQueries: number;
   totalAcceptedResults: number;
+  usage: DeepResearchUsageSummary;
+  cutShort: DeepResearchCutShort | null;
+  failures: DeepResearchFailure[];
+  citationIssues: DeepResearchCitationIssue[];
+  reportTemplate: string;
+  missingSections: string[];
 }
 
-export interface DeepResearchResult {
+export interface DeepResearchResult<TOutput = unknown> {
   status: DeepResearchStatus;
   topic: string;
   queries: string[];
   searchResults: MinimalSearchResult[];
   learnings: Learning[];
   report: string | null;
+  output: TOutput | null;
+  citations: DeepResearchCitation[];
+  contradictions: DeepResearchContradiction[];
+  verifiedClaims: DeepResearchClaimVerification[];
   metadata: DeepResearchResultMetadata;
 }
 
+export type DeepResearchApproval =
+  | {
+      kind: "queries";
+      topic: string;
+      remainingDepth: number;
+      queries: string[];
+    }
+  | {
+      kind: "results";
+      query: string;
+      results: MinimalSearchResult[];
+    }
+  | {
+      kind: "follow-up";
+      query: string;
+      learnings: Learning[];
+      followUpQuestions: string[];
+    };
+
+type DeepResearchApprovalRequest<TKind extends DeepResearchApproval["kind"]> = Omit<
+  Extract<DeepResearchApproval, { kind: TKind }>,
+  "kind"
+> & { abortSignal: AbortSignal };
+
+export interface DeepResearchApprovalHooks {
+  onQueriesGenerated?: (
+    request: DeepResearchApprovalRequest<"queries">,
+  ) => Promise<string[] | void> | string[] | void;
+  onResultsEvaluated?: (
+    request: DeepResearchApprovalRequest<"results">,
+  ) => Promise<MinimalSearchResult[] | void> | MinimalSearchResult[] | void;
+  onFollowUpTopic?: (
+    request: DeepResearchApprovalRequest<"follow-up">,
+  ) => Promise<string[] | void> | string[] | void;
+}
+
+export interface DeepResearchReportJsonLd {
+  "@context": "https://schema.org";
+  "@type": "Report";
+  identifier: string;
+  name: string;
+  about: string;
+  dateCreated: string;
+  creativeWorkStatus: DeepResearchStatus;
+  text: string;
+  hasPart: Array<{
+    "@type": "CreativeWork";
+    position: number;
+    headline: string;
+    text: string;
+  }>;
+  citation: Array<{
+    "@type": "WebPage";
+    position: number;
+    name: string;
+    url: string;
+  }>;
+}
+
+export interface DeepResearchCslItem {
+  id: string;
+  type: "webpage";
+  title: string;
+  URL: string;
+  "container-title"?: string;
+  accessed: { "date-parts": [[number, number, number]] };
+}
+
 export type DeepResearchEvent =
   | {
       type: "run-started";
+      runId: string;
       topic: string;
       depth: number;
       breadth: number;
@@ -77,12 +492,28 @@ export type DeepResearchEvent =
       result: MinimalSearchResult;
       verdict: "relevant" | "irrelevant";
       reason: string;
+      score?: number;
     }
   | {
       type: "learning-generated";
       query: string;
       learning: Learning;
     }
+  | {
+      type: "query-failed";
+      query: string;
+      stage: DeepResearchRetryStage;
+      error: string;
+      failureCount: number;
+    }
+  | {
+      type: "source-failed";
+      query: string;
+      url: string;
+      stage: DeepResearchRetryStage;
+      error: string;
+      failureCount: number;
+    }
   | {
       type: "depth-progress";
       topic: string;
@@ -91,10 +522,52 @@ export type DeepResearchEvent =
       completedQueries: number;
       acceptedResults: number;
     }
+  | {
+      type: "usage-recorded";
+      stage: DeepResearchUsageStage;
+      model: ModelReference;
+      usage: DeepResearchTokenUsage;
+      costUsd: number;
+      total: DeepResearchUsageSummary;
+    }
+  | {
+      type: "retry-scheduled";
+      stage: DeepResearchRetryStage;
+      query?: string;
+      attempt: number;
+      maxAttempts: number;
+      delayMs: number;
+      error: string;
+    }
+  | {
+      type: "contradiction-detected";
+      contradiction: DeepResearchContradiction;
+    }
+  | {
+      type: "awaiting-approval";
+      approval: DeepResearchApproval;
+    }
+  | {
+      type: "approval-resolved";
+      approval: DeepResearchApproval;
+    }
   | {
       type: "report-started";
       topic: string;
     }
+  | {
+      type: "report-delta";
+      topic: string;
+      delta: string;
+    }
+  | {
+      type: "report-reset";
+      topic: string;
+    }
+  | {
+      type: "claim-verified";
+      verification: DeepResearchClaimVerification;
+    }
   | {
       type: "report-completed";
       topic: string;
@@ -112,12 +585,91 @@ export type DeepResearchEvent =
       error: string;
     };
 
-export interface DeepResearchCallOptions {
+export interface DeepResearchCallOptions<TOutput = unknown> {
   depth?: number;
   breadth?: number;
+  runId?: string;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  deadline?: Date | number | string;
+  timeBudgetMs?: number;
+  explorationStrategy?: DeepResearchExplorationStrategy;
+  reportTemplate?: DeepResearchReportTemplateOption;
+  outputSchema?: z.ZodType<TOutput>;
+  includeReport?: boolean;
+  approval?: DeepResearchApprovalHooks;
   abortSignal?: AbortSignal;
 }
 
+export type DeepResearchResumeOptions<TOutput = unknown> = Pick<
+  DeepResearchCallOptions<TOutput>,
+  | "abortSignal"
+  | "maxTokens"
+  | "maxCostUsd"
+  | "deadline"
+  | "timeBudgetMs"
+  | "outputSchema"
+  | "includeReport"
+  | "approval"
+>;
+
+export interface DeepResearchOrderedEntry<T> {
+  key: number[];
+  value: T;
+}
+
+export type DeepResearchFrontierItem =
+  | {
+      kind: "topic";
+      key: number[];
+      topic: string;
+      remainingDepth: number;
+      breadth: number;
+      priority?: number;
+    }
+  | {
+      kind: "query";
+      key: number[];
+      query: string;
+      remainingDepth: number;
+      breadth: number;
+    }
+  | {
+      kind: "source";
+      key: number[];
+      query: string;
+      searchResult: MinimalSearchResult;
+      remainingDepth: number;
+      breadth: number;
+    };
+
+export interface DeepResearchCheckpoint {
+  version: 1;
+  runId: string;
+  topic: string;
+  depth: number;
+  breadth: number;
+  startedAt: string;
+  updatedAt: string;
+  completedQueries: number;
+  queries: Array<DeepResearchOrderedEntry<string>>;
+  searchResults: Array<DeepResearchOrderedEntry<MinimalSearchResult>>;
+  learnings: Array<DeepResearchOrderedEntry<Learning>>;
+  seenQueries: string[];
+  seenUrls: string[];
+  frontier: DeepResearchFrontierItem[];
+  usage?: DeepResearchUsageSummary;
+  explorationStrategy?: DeepResearchExplorationStrategy;
+  reportTemplate?: DeepResearchReportTemplate;
+  failures?: DeepResearchFailure[];
+}
+
+export interface DeepResearchCheckpointStore {
+  save(checkpoint: DeepResearchCheckpoint): Promise<void>;
+  load(runId: string): Promise<DeepResearchCheckpoint | null>;
+  delete(runId: string): Promise<void>;
+}
+
 export type SearchExecutor = (args: {
   query: string;
   numResults: number;
@@ -135,11 +687,48 @@ export interface CreateDeepResearchAgentConfig {
   maxQueriesPerRun?: number;
   maxFollowUpQuestions?: number;
   maxCharactersPerResult?: number;
+  concurrency?: number;
+  checkpointStore?: DeepResearchCheckpointStore;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  modelPrices?: DeepResearchPriceTable;
+  timeBudgetMs?: number;
+  explorationStrategy?: DeepResearchExplorationStrategy;
+  breadthDecay?: DeepResearchBreadthDecay;
+  retry?: Partial<DeepResearchRetryPolicy>;
+  maxFailures?: number;
+  relevanceEvaluation?: DeepResearchRelevanceEvaluation;
+  maxEvaluationBatchCharacters?: number;
+  coordinatorMode?: DeepResearchCoordinatorMode;
+  maxSearchReformulations?: number;
+  minAcceptedResults?: number;
+  urlCanonicalization?: DeepResearchUrlCanonicalization;
+  nearDuplicateThreshold?: number;
+  domainPolicy?: DeepResearchDomainPolicy;
+  credibilityScoring?: DeepResearchCredibilityScoring;
+  domainTiers?: Record<string, number>;
+  credibilityScorer?: DeepResearchCredibilityScorer;
+  learningExtraction?: DeepResearchLearningExtraction;
+  maxLearningsPerSource?: number;
+  chunkCharacters?: number;
+  chunkOverlapCharacters?: number;
+  maxChunksPerSource?: number;
+  maxReportPromptTokens?: number;
+  detectContradictions?: boolean;
+  citationStyle?: DeepResearchCitationStyle;
+  citationValidation?: DeepResearchCitationValidation;
+  claimVerification?: DeepResearchClaimVerificationMode;
+  searchLanguages?: string[];
+  outputLanguage?: string;
+  approval?: DeepResearchApprovalHooks;
+  prompts?: DeepResearchPromptTemplates;
+  reportTemplate?: DeepResearchReportTemplateOption;
+  reportTemplates?: Record<string, DeepResearchReportTemplate>;
 }
 
 export type DeepResearchModelConfig = LanguageModel | string;
 
-export interface DeepResearchRunConfig {
+export interface DeepResearchRunConfig<TOutput = unknown> {
   prompt: string;
   researchModel: DeepResearchModelConfig;
   synthesisModel?: DeepResearchModelConfig;
@@ -152,6 +741,47 @@ export interface DeepResearchRunConfig {
   maxQueriesPerRun?: number;
   maxFollowUpQuestions?: number;
   maxCharactersPerResult?: number;
+  concurrency?: number;
+  checkpointStore?: DeepResearchCheckpointStore;
+  runId?: string;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  modelPrices?: DeepResearchPriceTable;
+  deadline?: Date | number | string;
+  timeBudgetMs?: number;
+  explorationStrategy?: DeepResearchExplorationStrategy;
+  breadthDecay?: DeepResearchBreadthDecay;
+  retry?: Partial<DeepResearchRetryPolicy>;
+  maxFailures?: number;
+  relevanceEvaluation?: DeepResearchRelevanceEvaluation;
+  maxEvaluationBatchCharacters?: number;
+  coordinatorMode?: DeepResearchCoordinatorMode;
+  maxSearchReformulations?: number;
+  minAcceptedResults?: number;
+  urlCanonicalization?: DeepResearchUrlCanonicalization;
+  nearDuplicateThreshold?: number;
+  domainPolicy?: DeepResearchDomainPolicy;
+  credibilityScoring?: DeepResearchCredibilityScoring;
+  domainTiers?: Record<string, number>;
+  credibilityScorer?: DeepResearchCredibilityScorer;
+  learningExtraction?: DeepResearchLearningExtraction;
+  maxLearningsPerSource?: number;
+  chunkCharacters?: number;
+  chunkOverlapCharacters?: number;
+  maxChunksPerSource?: number;
+  maxReportPromptTokens?: number;
+  detectContradictions?: boolean;
+  citationStyle?: DeepResearchCitationStyle;
+  citationValidation?: DeepResearchCitationValidation;
+  claimVerification?: DeepResearchClaimVerificationMode;
+  searchLanguages?: string[];
+  outputLanguage?: string;
+  approval?: DeepResearchApprovalHooks;
+  prompts?: DeepResearchPromptTemplates;
+  reportTemplate?: DeepResearchReportTemplateOption;
+  reportTemplates?: Record<string, DeepResearchReportTemplate>;
+  outputSchema?: z.ZodType<TOutput>;
+  includeReport?: boolean;
 }
 
 export interface DeepResearchAgent {
@@ -159,8 +789,12 @@ export interface DeepResearchAgent {
     input: DeepResearchInput,
     options?: DeepResearchCallOptions,
   ): AsyncIterable<DeepResearchEvent>;
-  run(
+  run<TOutput = unknown>(
     input: DeepResearchInput,
-    options?: DeepResearchCallOptions,
-  ): Promise<DeepResearchResult>;
+    options?: DeepResearchCallOptions<TOutput>,
+  ): Promise<DeepResearchResult<TOutput>>;
+  resume<TOutput = unknown>(
+    checkpoint: DeepResearchCheckpoint | string,
+    options?: DeepResearchResumeOptions<TOutput>,
+  ): Promise<DeepResearchResult<TOutput>>;
 }
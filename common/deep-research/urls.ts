@@ -0,0 +1,128 @@
+import type { DeepResearchDomainPolicy, DeepResearchUrlCanonicalization } from "./types";
+
+const trackingParams = new Set([
+  "gclid",
+  "gbraid",
+  "wbraid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "mkt_tok",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "ref_src",
+]);
+
+function isTrackingParam(
+  name: string,
+  extraParams: Array<string | RegExp>,
+): boolean {
+  const normalized = name.toLowerCase();
+  if (normalized.startsWith("utm_") || trackingParams.has(normalized)) {
+    return true;
+  }
+
+  return extraParams.some((param) =>
+    typeof param === "string" ? param.toLowerCase() === normalized : param.test(name),
+  );
+}
+
+export function canonicalizeUrl(
+  url: string,
+  options: DeepResearchUrlCanonicalization = {},
+): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return parsed.toString();
+  }
+
+  parsed.protocol = "https:";
+  if (parsed.port === "80" || parsed.port === "443") {
+    parsed.port = "";
+  }
+  parsed.hostname = parsed.hostname.replace(/^www\./, "").replace(/\.$/, "");
+  parsed.hash = "";
+  parsed.username = "";
+  parsed.password = "";
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name, options.stripParams ?? []))
+    .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  for (const rule of options.rules ?? []) {
+    parsed = rule(parsed) ?? parsed;
+  }
+
+  return parsed.toString();
+}
+
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^\.+/, "")
+    .replace(/^www\./, "")
+    .replace(/\.$/, "");
+}
+
+export function getHostname(url: string): string | null {
+  try {
+    return normalizeDomain(new URL(url.trim()).hostname);
+  } catch {
+    return null;
+  }
+}
+
+export function findMatchingDomain(url: string, domains: string[]): string | null {
+  const hostname = getHostname(url);
+  if (!hostname) {
+    return null;
+  }
+
+  let match: string | null = null;
+  let matchLength = -1;
+  for (const domain of domains) {
+    const normalized = normalizeDomain(domain);
+    if (
+      (hostname === normalized || hostname.endsWith(`.${normalized}`)) &&
+      normalized.length > matchLength
+    ) {
+      match = domain;
+      matchLength = normalized.length;
+    }
+  }
+  return match;
+}
+
+export function checkDomainPolicy(
+  url: string,
+  policy: DeepResearchDomainPolicy = {},
+): string | null {
+  const denied = findMatchingDomain(url, policy.deny ?? []);
+  if (denied) {
+    return `Skipped because ${denied} is on the domain denylist.`;
+  }
+
+  if (policy.allow && policy.allow.length > 0 && !findMatchingDomain(url, policy.allow)) {
+    return "Skipped because its domain is not on the domain allowlist.";
+  }
+
+  return null;
+}
@@ -0,0 +1,156 @@
+import type { LanguageModel, LanguageModelUsage } from "ai";
+import type {
+  DeepResearchModelPrice,
+  DeepResearchPriceTable,
+  DeepResearchStageUsage,
+  DeepResearchTokenUsage,
+  DeepResearchUsageStage,
+  DeepResearchUsageSummary,
+} from "./types";
+import { describeModel } from "./utils";
+
+export type UsageRecorder = (
+  stage: DeepResearchUsageStage,
+  model: LanguageModel,
+  usage: LanguageModelUsage,
+) => Promise<void> | void;
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+const USAGE_STAGES: DeepResearchUsageStage[] = [
+  "query-generation",
+  "coordinator",
+  "relevance-evaluation",
+  "credibility-assessment",
+  "learning-extraction",
+  "follow-up-scoring",
+  "contradiction-detection",
+  "synthesis",
+  "verification",
+];
+
+function createEmptyStageUsage(): DeepResearchStageUsage {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+export function createEmptyUsageSummary(): DeepResearchUsageSummary {
+  return {
+    ...createEmptyStageUsage(),
+    stages: Object.fromEntries(
+      USAGE_STAGES.map((stage) => [stage, createEmptyStageUsage()]),
+    ) as Record<DeepResearchUsageStage, DeepResearchStageUsage>,
+    budgetExhausted: false,
+  };
+}
+
+export function resolveModelPrice(
+  prices: DeepResearchPriceTable | undefined,
+  model: LanguageModel,
+): DeepResearchModelPrice | undefined {
+  const { provider, modelId } = describeModel(model);
+  const providerName = provider?.split(".")[0];
+
+  return (
+    (providerName ? prices?.[`${providerName}/${modelId}`] : undefined) ??
+    prices?.[modelId]
+  );
+}
+
+export function assertBudgetPricing(args: {
+  budget: UsageBudget;
+  prices?: DeepResearchPriceTable;
+  models: LanguageModel[];
+}): void {
+  if (args.budget.maxCostUsd == null) {
+    return;
+  }
+
+  for (const model of args.models) {
+    if (!resolveModelPrice(args.prices, model)) {
+      throw new Error(
+        `maxCostUsd requires a modelPrices entry for model "${describeModel(model).modelId}".`,
+      );
+    }
+  }
+}
+
+function normalizeTokenUsage(usage: LanguageModelUsage): DeepResearchTokenUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+  };
+}
+
+function addUsage(
+  target: DeepResearchStageUsage,
+  usage: DeepResearchTokenUsage,
+  costUsd: number,
+): void {
+  target.calls += 1;
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.totalTokens += usage.totalTokens;
+  target.costUsd += costUsd;
+}
+
+export function createUsageTracker(args: {
+  budget: UsageBudget;
+  prices?: DeepResearchPriceTable;
+  initial?: DeepResearchUsageSummary;
+}) {
+  const summary = createEmptyUsageSummary();
+  if (args.initial) {
+    const { stages, ...totals } = structuredClone(args.initial);
+    Object.assign(summary, totals);
+    Object.assign(summary.stages, stages);
+  }
+
+  const isOverBudget = () =>
+    (args.budget.maxTokens != null && summary.totalTokens >= args.budget.maxTokens) ||
+    (args.budget.maxCostUsd != null && summary.costUsd >= args.budget.maxCostUsd);
+  summary.budgetExhausted = isOverBudget();
+
+  return {
+    record(
+      stage: DeepResearchUsageStage,
+      model: LanguageModel,
+      usage: LanguageModelUsage,
+    ) {
+      const tokens = normalizeTokenUsage(usage);
+      const price = resolveModelPrice(args.prices, model);
+      const costUsd = price
+        ? (tokens.inputTokens * price.inputPerMillionTokens +
+            tokens.outputTokens * price.outputPerMillionTokens) /
+          1_000_000
+        : 0;
+
+      addUsage(summary, tokens, costUsd);
+      addUsage(summary.stages[stage], tokens, costUsd);
+
+      if (isOverBudget()) {
+        summary.budgetExhausted = true;
+      }
+
+      return { usage: tokens, costUsd };
+    },
+    isExhausted(): boolean {
+      return summary.budgetExhausted;
+    },
+    summary(): DeepResearchUsageSummary {
+      return structuredClone(summary);
+    },
+  };
+}
@@ -39,6 +39,10 @@ export function createRunTimestamp(): string {
   return new Date().toISOString();
 }
 
+export function createRunId(): string {
+  return crypto.randomUUID();
+}
+
 export function dedupeStrings(values: string[]): string[] {
   return [...new Set(values.map((value) => value.trim()).filter(Boolean))];
 }
@@ -111,8 +115,175 @@ export function createAbortError(signal?: AbortSignal): Error {
   return error;
 }
 
+export function createStopResearchError(
+  message = "Research was stopped so the report can be written from partial findings.",
+): Error {
+  const error = new Error(message);
+  error.name = "StopResearchError";
+  return error;
+}
+
+export function isStopResearchError(error: unknown): boolean {
+  return error instanceof Error && error.name === "StopResearchError";
+}
+
 export function throwIfAborted(signal?: AbortSignal): void {
   if (signal?.aborted) {
     throw createAbortError(signal);
   }
 }
+
+export function waitUnlessAborted<T>(
+  value: Promise<T> | T,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return Promise.resolve(value);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(value).then(
+      (resolved) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(resolved);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createConcurrencyLimiter(
+  concurrency: number,
+  abortSignal?: AbortSignal,
+): ConcurrencyLimiter {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const waiters: Array<() => void> = [];
+  let active = 0;
+
+  const release = () => {
+    const next = waiters.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    active -= 1;
+  };
+
+  return async (task) => {
+    if (active >= limit) {
+      await new Promise<void>((resolve) => {
+        waiters.push(resolve);
+      });
+    } else {
+      active += 1;
+    }
+
+    try {
+      throwIfAborted(abortSignal);
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+export async function settleAll<T>(tasks: Array<Promise<T>>): Promise<T[]> {
+  const settled = await Promise.allSettled(tasks);
+  const failure = settled.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected",
+  );
+
+  if (failure) {
+    throw failure.reason;
+  }
+
+  return settled.map((result) => (result as PromiseFulfilledResult<T>).value);
+}
+
+export function compareOrderKeys(left: number[], right: number[]): number {
+  const length = Math.min(left.length, right.length);
+  for (let index = 0; index < length; index += 1) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return left.length - right.length;
+}
+
+export function splitIntoBatches<T>(
+  items: T[],
+  measure: (item: T) => number,
+  maxBatchSize: number,
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  for (const item of items) {
+    const size = measure(item);
+    if (current.length > 0 && currentSize + size > maxBatchSize) {
+      batches.push(current);
+      current = [];
+      currentSize = 0;
+    }
+
+    current.push(item);
+    currentSize += size;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+export function splitIntoChunks(
+  text: string,
+  maxCharacters: number,
+  overlapCharacters = 0,
+): string[] {
+  if (text.length <= maxCharacters) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxCharacters, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const boundary = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf(". "));
+      if (boundary > maxCharacters / 2) {
+        end = start + boundary + 1;
+      }
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= text.length) {
+      break;
+    }
+
+    start = Math.max(end - overlapCharacters, start + 1);
+  }
+
+  return chunks;
+}
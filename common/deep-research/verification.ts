@@ -0,0 +1,71 @@
+import type {
+  DeepResearchClaimVerification,
+  DeepResearchClaimVerificationMode,
+} from "./types";
+
+const headingPattern = /^#{1,6}\s/;
+const referencesHeadingPattern = /^#{1,6}\s+(references|bibliography)\s*$/i;
+const listMarkerPattern = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const sentenceBoundaryPattern = /(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'“(*])/u;
+
+export function splitReportIntoClaims(report: string): string[] {
+  const claims: string[] = [];
+
+  for (const line of report.split("\n")) {
+    const trimmed = line.trim();
+    if (referencesHeadingPattern.test(trimmed)) {
+      break;
+    }
+    if (!trimmed || headingPattern.test(trimmed) || trimmed.startsWith("|")) {
+      continue;
+    }
+
+    const text = trimmed.replace(listMarkerPattern, "");
+    for (const part of text.split(sentenceBoundaryPattern)) {
+      const sentence = part.trim();
+      if (sentence.split(/\s+/).length >= 4 && /\p{L}/u.test(sentence)) {
+        claims.push(sentence);
+      }
+    }
+  }
+
+  return [...new Set(claims)];
+}
+
+export function applyClaimVerifications(
+  report: string,
+  verifications: DeepResearchClaimVerification[],
+  mode: DeepResearchClaimVerificationMode,
+): string {
+  if (mode !== "annotate" && mode !== "rewrite") {
+    return report;
+  }
+
+  let revised = report;
+  for (const verification of verifications) {
+    if (verification.verdict !== "unsupported") {
+      continue;
+    }
+
+    const replacement =
+      mode === "annotate"
+        ? `${verification.claim} *[unsupported]*`
+        : (verification.revision ?? "").trim();
+    let start = revised.indexOf(verification.claim);
+    if (start < 0) {
+      continue;
+    }
+
+    let end = start + verification.claim.length;
+    if (!replacement) {
+      if (revised[end] === " ") {
+        end += 1;
+      } else if (revised[start - 1] === " ") {
+        start -= 1;
+      }
+    }
+    revised = revised.slice(0, start) + replacement + revised.slice(end);
+  }
+
+  return revised;
+}
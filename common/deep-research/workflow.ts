@@ -1,55 +1,233 @@
-import { generateText, Output, ToolLoopAgent, stepCountIs, tool, type LanguageModel } from "ai";
+import {
+  gateway,
+  generateText,
+  Output,
+  ToolLoopAgent,
+  stepCountIs,
+  streamText,
+  tool,
+  wrapLanguageModel,
+  type LanguageModel,
+} from "ai";
 import { z } from "zod";
-import { buildReportPrompt } from "./report";
+import { applyNumberedCitations, createCitations } from "./citations";
+import { ensureConflictingEvidenceSection } from "./contradictions";
+import {
+  clampScore,
+  defaultDomainTiers,
+  scoreByDomainTier,
+  unratedCredibilityScore,
+} from "./credibility";
+import {
+  createNearDuplicateIndex,
+  recordMirror,
+  type NearDuplicateIndex,
+} from "./dedupe";
+import { applyBreadthDecay, getExplorationStrategy } from "./exploration";
+import { estimatePromptTokens } from "./report";
+import {
+  createRetryRunner,
+  getFailedStage,
+  resolveRetryPolicy,
+  type RetryNotice,
+  type RetryRunner,
+} from "./retry";
+import { validateSourceUrls } from "./output";
+import { renderPrompt } from "./prompts";
+import { defaultReportTemplates, findMissingSections } from "./templates";
+import { createUsageTracker, type UsageRecorder } from "./usage";
+import { canonicalizeUrl, checkDomainPolicy } from "./urls";
+import { applyClaimVerifications, splitReportIntoClaims } from "./verification";
 import type {
+  DeepResearchBreadthDecay,
   DeepResearchCallOptions,
+  DeepResearchCheckpoint,
+  DeepResearchCheckpointStore,
+  DeepResearchCitation,
+  DeepResearchCitationIssue,
+  DeepResearchCitationStyle,
+  DeepResearchCitationValidation,
+  DeepResearchClaimVerification,
+  DeepResearchClaimVerificationMode,
+  DeepResearchContradiction,
+  DeepResearchCoordinatorMode,
+  DeepResearchCredibility,
+  DeepResearchCredibilityScorer,
+  DeepResearchCredibilityScoring,
+  DeepResearchCutShort,
+  DeepResearchDomainPolicy,
   DeepResearchEvent,
+  DeepResearchFailure,
+  DeepResearchFrontierItem,
+  DeepResearchLearningExtraction,
+  DeepResearchOrderedEntry,
+  DeepResearchPriceTable,
+  DeepResearchPromptTemplates,
+  DeepResearchRelevanceEvaluation,
+  DeepResearchReportTemplate,
+  DeepResearchRetryPolicy,
   DeepResearchResult,
+  DeepResearchStatus,
+  DeepResearchStopReason,
+  DeepResearchThemeSummary,
+  DeepResearchUrlCanonicalization,
   Learning,
   MinimalSearchResult,
   SearchExecutor,
 } from "./types";
 import {
+  compareOrderKeys,
+  createConcurrencyLimiter,
   createFollowUpTopic,
+  createRunId,
   createRunTimestamp,
+  createStopResearchError,
   dedupeStrings,
   describeModel,
   isAbortError,
+  isStopResearchError,
+  settleAll,
+  splitIntoBatches,
+  splitIntoChunks,
   throwIfAborted,
+  waitUnlessAborted,
+  type ConcurrencyLimiter,
 } from "./utils";
 
 type EventEmitter = (event: DeepResearchEvent) => Promise<void> | void;
 
+function orderedValues<T>(entries: Array<DeepResearchOrderedEntry<T>>): T[] {
+  return [...entries]
+    .sort((left, right) => compareOrderKeys(left.key, right.key))
+    .map((entry) => entry.value);
+}
+
 export interface WorkflowDependencies {
   model: LanguageModel;
   synthesisModel: LanguageModel;
   maxResultsPerQuery: number;
   maxQueriesPerRun: number;
   maxFollowUpQuestions: number;
+  maxFailures: number;
+  concurrency: number;
+  checkpointStore?: DeepResearchCheckpointStore;
+  modelPrices?: DeepResearchPriceTable;
+  breadthDecay?: DeepResearchBreadthDecay;
+  retryPolicy?: Partial<DeepResearchRetryPolicy>;
+  urlCanonicalization?: DeepResearchUrlCanonicalization;
+  nearDuplicateThreshold?: number;
+  detectContradictions?: boolean;
+  citationStyle?: DeepResearchCitationStyle;
+  citationValidation?: DeepResearchCitationValidation;
+  claimVerification?: DeepResearchClaimVerificationMode;
+  searchLanguages?: string[];
   generateQueries: (args: {
     topic: string;
     breadth: number;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
     abortSignal?: AbortSignal;
   }) => Promise<string[]>;
   runSearchCoordinator: (args: {
     query: string;
     accumulatedUrls: Set<string>;
+    acceptedSources: NearDuplicateIndex;
     emit: EventEmitter;
+    schedule: ConcurrencyLimiter;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
     abortSignal?: AbortSignal;
   }) => Promise<MinimalSearchResult[]>;
-  generateLearning: (args: {
+  scoreCredibility: (args: {
+    query: string;
+    results: MinimalSearchResult[];
+    schedule: ConcurrencyLimiter;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
+    abortSignal?: AbortSignal;
+  }) => Promise<Array<DeepResearchCredibility | null>>;
+  generateLearnings: (args: {
     query: string;
     searchResult: MinimalSearchResult;
     maxFollowUpQuestions: number;
+    schedule: ConcurrencyLimiter;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
     abortSignal?: AbortSignal;
-  }) => Promise<Learning>;
+  }) => Promise<Learning[]>;
+  scoreFollowUpTopics: (args: {
+    topic: string;
+    candidates: string[];
+    learnings: Learning[];
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
+    abortSignal?: AbortSignal;
+  }) => Promise<number[]>;
+  findContradictions: (args: {
+    topic: string;
+    learnings: Learning[];
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
+    abortSignal?: AbortSignal;
+  }) => Promise<DeepResearchContradiction[]>;
   generateReport: (args: {
     topic: string;
     queries: string[];
     searchResults: MinimalSearchResult[];
     learnings: Learning[];
+    citations: DeepResearchCitation[];
+    contradictions: DeepResearchContradiction[];
+    template: DeepResearchReportTemplate;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
     abortSignal?: AbortSignal;
+    onDelta?: (delta: string) => Promise<void> | void;
+    onReset?: () => Promise<void> | void;
   }) => Promise<string>;
+  generateStructuredOutput: <TOutput>(args: {
+    topic: string;
+    queries: string[];
+    searchResults: MinimalSearchResult[];
+    learnings: Learning[];
+    contradictions: DeepResearchContradiction[];
+    schema: z.ZodType<TOutput>;
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
+    abortSignal?: AbortSignal;
+  }) => Promise<TOutput>;
+  verifyClaims: (args: {
+    topic: string;
+    claims: string[];
+    learnings: Learning[];
+    searchResults: MinimalSearchResult[];
+    recordUsage: UsageRecorder;
+    withRetry: RetryRunner;
+    abortSignal?: AbortSignal;
+  }) => Promise<DeepResearchClaimVerification[]>;
+}
+
+export const defaultMaxChunksPerSource = 4;
+
+function scheduleModelCalls(
+  model: LanguageModel,
+  schedule: ConcurrencyLimiter,
+): LanguageModel {
+  const resolved =
+    typeof model === "string"
+      ? (globalThis.AI_SDK_DEFAULT_PROVIDER ?? gateway).languageModel(model)
+      : model;
+  if (resolved.specificationVersion !== "v3") {
+    return resolved;
+  }
+
+  return wrapLanguageModel({
+    model: resolved,
+    middleware: {
+      specificationVersion: "v3",
+      wrapGenerate: ({ doGenerate }) => schedule(async () => doGenerate()),
+      wrapStream: ({ doStream }) => schedule(async () => doStream()),
+    },
+  });
 }
 
 export function createWorkflowDependencies(args: {
@@ -59,46 +237,401 @@ export function createWorkflowDependencies(args: {
   maxResultsPerQuery: number;
   maxQueriesPerRun: number;
   maxFollowUpQuestions: number;
+  maxFailures: number;
+  concurrency: number;
+  checkpointStore?: DeepResearchCheckpointStore;
+  modelPrices?: DeepResearchPriceTable;
+  breadthDecay?: DeepResearchBreadthDecay;
+  retryPolicy?: Partial<DeepResearchRetryPolicy>;
+  relevanceEvaluation: DeepResearchRelevanceEvaluation;
+  maxEvaluationBatchCharacters: number;
+  coordinatorMode: DeepResearchCoordinatorMode;
+  maxSearchReformulations: number;
+  minAcceptedResults: number;
+  urlCanonicalization?: DeepResearchUrlCanonicalization;
+  nearDuplicateThreshold?: number;
+  domainPolicy?: DeepResearchDomainPolicy;
+  credibilityScoring: DeepResearchCredibilityScoring;
+  domainTiers?: Record<string, number>;
+  credibilityScorer?: DeepResearchCredibilityScorer;
+  learningExtraction: DeepResearchLearningExtraction;
+  maxLearningsPerSource: number;
+  chunkCharacters?: number;
+  chunkOverlapCharacters: number;
+  maxChunksPerSource?: number;
+  maxReportPromptTokens: number;
+  detectContradictions?: boolean;
+  citationStyle?: DeepResearchCitationStyle;
+  citationValidation?: DeepResearchCitationValidation;
+  claimVerification?: DeepResearchClaimVerificationMode;
+  searchLanguages?: string[];
+  outputLanguage?: string;
+  prompts?: DeepResearchPromptTemplates;
 }): WorkflowDependencies {
+  const searchLanguages = dedupeStrings(args.searchLanguages ?? []);
+  const outputLanguage = args.outputLanguage ?? null;
+  const excerptCharacters = args.chunkCharacters ?? 4_000;
+
   return {
     model: args.model,
     synthesisModel: args.synthesisModel,
     maxResultsPerQuery: args.maxResultsPerQuery,
     maxQueriesPerRun: args.maxQueriesPerRun,
     maxFollowUpQuestions: args.maxFollowUpQuestions,
-    async generateQueries({ topic, breadth, abortSignal }) {
+    maxFailures: args.maxFailures,
+    concurrency: args.concurrency,
+    checkpointStore: args.checkpointStore,
+    modelPrices: args.modelPrices,
+    breadthDecay: args.breadthDecay,
+    retryPolicy: args.retryPolicy,
+    urlCanonicalization: args.urlCanonicalization,
+    nearDuplicateThreshold: args.nearDuplicateThreshold,
+    detectContradictions: args.detectContradictions,
+    citationStyle: args.citationStyle,
+    citationValidation: args.citationValidation,
+    claimVerification: args.claimVerification,
+    searchLanguages,
+    async generateQueries({
+      topic,
+      breadth,
+      recordUsage,
+      withRetry,
+      abortSignal,
+    }) {
       throwIfAborted(abortSignal);
 
-      const { output } = await generateText({
-        model: args.model,
-        abortSignal,
-        output: Output.object({
-          schema: z.object({
-            queries: z.array(z.string().min(1)).min(1),
+      const { output, usage } = await withRetry("query-generation", () =>
+        generateText({
+          model: args.model,
+          maxRetries: 0,
+          abortSignal,
+          output: Output.object({
+            schema: z.object({
+              queries: z.array(z.string().min(1)).min(1),
+            }),
           }),
+          ...renderPrompt(
+            "queryGeneration",
+            { topic, breadth, languages: searchLanguages },
+            args.prompts,
+          ),
         }),
-        prompt: [
-          `Generate up to ${breadth} web research queries.`,
-          "Return only queries that would help investigate the topic deeply.",
-          "Prefer diverse, source-seeking queries over rephrasings.",
-          `Topic: ${topic}`,
-        ].join("\n"),
-      });
+      );
 
-      return dedupeStrings(output.queries).slice(0, Math.max(1, breadth));
+      await recordUsage("query-generation", args.model, usage);
+      return dedupeStrings(output.queries).slice(
+        0,
+        Math.max(1, breadth) * Math.max(1, searchLanguages.length),
+      );
     },
     async runSearchCoordinator({
       query,
       accumulatedUrls,
+      acceptedSources,
       emit,
+      schedule,
+      recordUsage,
+      withRetry,
       abortSignal,
     }) {
-      let pendingResults: MinimalSearchResult[] = [];
+      type Evaluation = {
+        url: string;
+        verdict: "relevant" | "irrelevant";
+        reason: string;
+        score?: number;
+      };
+
       const acceptedResults: MinimalSearchResult[] = [];
       const seenCandidateUrls = new Set<string>();
+      let seenCandidateContent = createNearDuplicateIndex(args.nearDuplicateThreshold);
+      const canonicalUrl = (url: string) =>
+        canonicalizeUrl(url, args.urlCanonicalization);
+      const preview = (candidate: MinimalSearchResult): MinimalSearchResult =>
+        args.chunkCharacters !== undefined && candidate.content.length > args.chunkCharacters
+          ? { ...candidate, content: candidate.content.slice(0, args.chunkCharacters) }
+          : candidate;
+
+      const searchWeb = async (
+        searchQuery: string,
+        numResults: number,
+      ): Promise<MinimalSearchResult[]> => {
+        throwIfAborted(abortSignal);
+        await emit({
+          type: "search-started",
+          query: searchQuery,
+          numResults,
+        });
+        const results = await withRetry(
+          "search",
+          () =>
+            schedule(() =>
+              args.search({
+                query: searchQuery,
+                numResults,
+                abortSignal,
+              }),
+            ),
+          { query: searchQuery },
+        );
+        await emit({
+          type: "search-completed",
+          query: searchQuery,
+          numResults,
+          results,
+        });
+        return results;
+      };
+
+      const screenCandidate = async (
+        candidate: MinimalSearchResult,
+      ): Promise<Evaluation | null> => {
+        const url = canonicalUrl(candidate.url);
+        const policyViolation = checkDomainPolicy(candidate.url, args.domainPolicy);
+        let rejectionReason: string;
+        if (policyViolation) {
+          rejectionReason = policyViolation;
+        } else if (accumulatedUrls.has(url) || seenCandidateUrls.has(url)) {
+          rejectionReason =
+            "Skipped because this source URL was already accepted earlier in the run.";
+        } else {
+          seenCandidateUrls.add(url);
+          const mirrorOf =
+            acceptedSources.find(candidate.content) ??
+            seenCandidateContent.find(candidate.content);
+          if (!mirrorOf) {
+            seenCandidateContent.add(candidate);
+            return null;
+          }
+
+          recordMirror(mirrorOf.source, candidate.url);
+          rejectionReason = `Skipped because its content nearly duplicates ${mirrorOf.source.url} (similarity ${mirrorOf.similarity.toFixed(2)}).`;
+        }
+
+        await emit({
+          type: "result-evaluated",
+          query,
+          result: candidate,
+          verdict: "irrelevant",
+          reason: rejectionReason,
+        });
+        return {
+          url: candidate.url,
+          verdict: "irrelevant",
+          reason: rejectionReason,
+        };
+      };
+
+      const evaluateCandidate = async (
+        candidate: MinimalSearchResult,
+      ): Promise<Evaluation> => {
+        throwIfAborted(abortSignal);
+
+        const rejection = await screenCandidate(candidate);
+        if (rejection) {
+          return rejection;
+        }
+
+        const { output, usage } = await withRetry(
+          "relevance-evaluation",
+          () =>
+            schedule(() =>
+              generateText({
+                model: args.model,
+                maxRetries: 0,
+                abortSignal,
+                output: Output.object({
+                  schema: z.object({
+                    verdict: z.enum(["relevant", "irrelevant"]),
+                    reason: z.string().min(1),
+                  }),
+                }),
+                ...renderPrompt(
+                  "relevanceEvaluation",
+                  {
+                    query,
+                    candidate: preview(candidate),
+                    acceptedUrls: [...accumulatedUrls],
+                  },
+                  args.prompts,
+                ),
+              }),
+            ),
+          { query },
+        );
+
+        await recordUsage("relevance-evaluation", args.model, usage);
+        await emit({
+          type: "result-evaluated",
+          query,
+          result: candidate,
+          verdict: output.verdict,
+          reason: output.reason,
+        });
+
+        return {
+          url: candidate.url,
+          verdict: output.verdict,
+          reason: output.reason,
+        };
+      };
+
+      const evaluateBatch = async (
+        batch: MinimalSearchResult[],
+      ): Promise<Evaluation[]> => {
+        throwIfAborted(abortSignal);
+
+        const { output, usage } = await withRetry(
+          "relevance-evaluation",
+          () =>
+            schedule(() =>
+              generateText({
+                model: args.model,
+                maxRetries: 0,
+                abortSignal,
+                output: Output.object({
+                  schema: z.object({
+                    evaluations: z.array(
+                      z.object({
+                        url: z.string().min(1),
+                        verdict: z.enum(["relevant", "irrelevant"]),
+                        reason: z.string().min(1),
+                        score: z.number().min(0).max(1),
+                      }),
+                    ),
+                  }),
+                }),
+                ...renderPrompt(
+                  "batchedRelevanceEvaluation",
+                  {
+                    query,
+                    candidates: batch.map(preview),
+                    acceptedUrls: [...accumulatedUrls],
+                  },
+                  args.prompts,
+                ),
+              }),
+            ),
+          { query },
+        );
+
+        await recordUsage("relevance-evaluation", args.model, usage);
+
+        const judged = new Map(
+          output.evaluations.map((evaluation) => [
+            canonicalUrl(evaluation.url),
+            evaluation,
+          ]),
+        );
+        const evaluations: Evaluation[] = [];
+        for (const candidate of batch) {
+          const evaluation = judged.get(canonicalUrl(candidate.url)) ?? {
+            verdict: "irrelevant" as const,
+            reason: "Skipped because the batched evaluation returned no verdict for this source.",
+            score: 0,
+          };
+          await emit({
+            type: "result-evaluated",
+            query,
+            result: candidate,
+            verdict: evaluation.verdict,
+            reason: evaluation.reason,
+            score: evaluation.score,
+          });
+          evaluations.push({
+            url: candidate.url,
+            verdict: evaluation.verdict,
+            reason: evaluation.reason,
+            score: evaluation.score,
+          });
+        }
+
+        return evaluations;
+      };
+
+      const evaluateInBatches = async (
+        candidates: MinimalSearchResult[],
+      ): Promise<Evaluation[]> => {
+        const evaluations = new Map<number, Evaluation>();
+        const pending: Array<{ index: number; candidate: MinimalSearchResult }> = [];
+
+        for (const [index, candidate] of candidates.entries()) {
+          throwIfAborted(abortSignal);
+          const rejection = await screenCandidate(candidate);
+          if (rejection) {
+            evaluations.set(index, rejection);
+          } else {
+            pending.push({ index, candidate });
+          }
+        }
+
+        const batches = splitIntoBatches(
+          pending,
+          ({ candidate }) => JSON.stringify(preview(candidate)).length,
+          args.maxEvaluationBatchCharacters,
+        );
+        await settleAll(
+          batches.map(async (batch) => {
+            const judged = await evaluateBatch(
+              batch.map(({ candidate }) => candidate),
+            );
+            for (const [offset, { index }] of batch.entries()) {
+              const evaluation = judged[offset];
+              if (evaluation) {
+                evaluations.set(index, evaluation);
+              }
+            }
+          }),
+        );
+
+        return candidates.flatMap((_, index) => {
+          const evaluation = evaluations.get(index);
+          return evaluation ? [evaluation] : [];
+        });
+      };
+
+      const evaluateResults = async (
+        candidates: MinimalSearchResult[],
+      ): Promise<Evaluation[]> => {
+        const evaluations =
+          args.relevanceEvaluation === "batched"
+            ? await evaluateInBatches(candidates)
+            : await settleAll(
+                candidates.map((candidate) => evaluateCandidate(candidate)),
+              );
+
+        for (const [index, evaluation] of evaluations.entries()) {
+          const candidate = candidates[index];
+          if (candidate && evaluation.verdict === "relevant") {
+            acceptedResults.push(candidate);
+          }
+        }
+
+        return evaluations;
+      };
+
+      if (args.coordinatorMode === "deterministic") {
+        await evaluateResults(await searchWeb(query, args.maxResultsPerQuery));
+        return acceptedResults;
+      }
+
+      const maxSearches = args.maxSearchReformulations + 1;
+      let pendingResults: MinimalSearchResult[] = [];
+      let evaluationPending = false;
+      let searchCount = 0;
+      let toolFailure: unknown;
+
+      const trackToolFailure = async <T>(task: Promise<T>): Promise<T> => {
+        try {
+          return await task;
+        } catch (error) {
+          toolFailure ??= error;
+          throw error;
+        }
+      };
 
       const searchWebTool = tool({
-        description: "Search the web for research material relevant to a query.",
+        description:
+          "Search the web for research material relevant to a query. Use a reformulated query when searching again.",
         inputSchema: z.object({
           query: z.string().min(1),
           numResults: z
@@ -109,23 +642,9 @@ export function createWorkflowDependencies(args: {
             .default(args.maxResultsPerQuery),
         }),
         execute: async ({ query: toolQuery, numResults }) => {
-          throwIfAborted(abortSignal);
-          await emit({
-            type: "search-started",
-            query: toolQuery,
-            numResults,
-          });
-          pendingResults = await args.search({
-            query: toolQuery,
-            numResults,
-            abortSignal,
-          });
-          await emit({
-            type: "search-completed",
-            query: toolQuery,
-            numResults,
-            results: pendingResults,
-          });
+          searchCount += 1;
+          pendingResults = await trackToolFailure(searchWeb(toolQuery, numResults));
+          evaluationPending = true;
           return {
             found: pendingResults.length,
             urls: pendingResults.map((result) => result.url),
@@ -135,103 +654,40 @@ export function createWorkflowDependencies(args: {
 
       const evaluateSearchResultsTool = tool({
         description:
-          "Evaluate all pending search results and keep only relevant non-duplicate sources.",
+          "Evaluate the results of the latest search and keep only relevant non-duplicate sources.",
         inputSchema: z.object({}),
         execute: async () => {
-          const evaluations: Array<{
-            url: string;
-            verdict: "relevant" | "irrelevant";
-            reason: string;
-          }> = [];
-
-          for (const candidate of pendingResults) {
-            throwIfAborted(abortSignal);
-
-            if (
-              accumulatedUrls.has(candidate.url) ||
-              seenCandidateUrls.has(candidate.url)
-            ) {
-              const duplicateReason =
-                "Skipped because this source URL was already accepted earlier in the run.";
-              await emit({
-                type: "result-evaluated",
-                query,
-                result: candidate,
-                verdict: "irrelevant",
-                reason: duplicateReason,
-              });
-              evaluations.push({
-                url: candidate.url,
-                verdict: "irrelevant",
-                reason: duplicateReason,
-              });
-              continue;
-            }
-
-            seenCandidateUrls.add(candidate.url);
-
-            const { output } = await generateText({
-              model: args.model,
-              abortSignal,
-              output: Output.object({
-                schema: z.object({
-                  verdict: z.enum(["relevant", "irrelevant"]),
-                  reason: z.string().min(1),
-                }),
-              }),
-              prompt: [
-                `Evaluate whether this search result is useful for the query "${query}".`,
-                "Mark it irrelevant if it is redundant, too generic, or clearly off-topic.",
-                "",
-                "<search_result>",
-                JSON.stringify(candidate, null, 2),
-                "</search_result>",
-                "",
-                "<accepted_urls>",
-                JSON.stringify([...accumulatedUrls], null, 2),
-                "</accepted_urls>",
-              ].join("\n"),
-            });
-
-            await emit({
-              type: "result-evaluated",
-              query,
-              result: candidate,
-              verdict: output.verdict,
-              reason: output.reason,
-            });
-
-            evaluations.push({
-              url: candidate.url,
-              verdict: output.verdict,
-              reason: output.reason,
-            });
-
-            if (output.verdict === "relevant") {
-              acceptedResults.push(candidate);
-            }
-          }
+          const candidates = pendingResults;
+          pendingResults = [];
+          evaluationPending = false;
+          const evaluations = await trackToolFailure(evaluateResults(candidates));
 
           return {
             acceptedUrls: acceptedResults.map((result) => result.url),
             evaluations,
+            remainingSearches: maxSearches - searchCount,
           };
         },
       });
 
+      const coordinatorPrompt = renderPrompt(
+        "coordinator",
+        {
+          query,
+          minAcceptedResults: args.minAcceptedResults,
+          maxSearchReformulations: args.maxSearchReformulations,
+        },
+        args.prompts,
+      );
       const searchAgent = new ToolLoopAgent({
-        model: args.model,
-        instructions: [
-          "You coordinate a two-step deep research process.",
-          "Step 1: call searchWeb exactly once.",
-          "Step 2: call evaluateSearchResults exactly once.",
-          "Step 3: finish with a short confirmation.",
-        ].join("\n"),
+        model: scheduleModelCalls(args.model, schedule),
+        instructions: coordinatorPrompt.system,
         tools: {
           searchWeb: searchWebTool,
           evaluateSearchResults: evaluateSearchResultsTool,
         },
-        stopWhen: stepCountIs(3),
+        stopWhen: stepCountIs(maxSearches * 2 + 1),
+        maxRetries: 0,
         prepareStep: async ({ stepNumber }) => {
           if (stepNumber === 0) {
             return {
@@ -240,13 +696,23 @@ export function createWorkflowDependencies(args: {
             };
           }
 
-          if (stepNumber === 1) {
+          if (evaluationPending) {
             return {
               activeTools: ["evaluateSearchResults"],
               toolChoice: { type: "tool", toolName: "evaluateSearchResults" },
             };
           }
 
+          if (
+            acceptedResults.length < args.minAcceptedResults &&
+            searchCount < maxSearches
+          ) {
+            return {
+              activeTools: ["searchWeb"],
+              toolChoice: "auto",
+            };
+          }
+
           return {
             activeTools: [],
             toolChoice: "none",
@@ -254,229 +720,1694 @@ export function createWorkflowDependencies(args: {
         },
       });
 
-      await searchAgent.generate({
-        prompt: `Research this query: ${query}`,
-        abortSignal,
-      });
+      const { totalUsage } = await withRetry(
+        "coordinator",
+        () => {
+          pendingResults = [];
+          evaluationPending = false;
+          searchCount = 0;
+          toolFailure = undefined;
+          acceptedResults.length = 0;
+          seenCandidateUrls.clear();
+          seenCandidateContent = createNearDuplicateIndex(args.nearDuplicateThreshold);
+
+          return searchAgent.generate({
+            prompt: coordinatorPrompt.prompt,
+            abortSignal,
+          });
+        },
+        { query },
+      );
+
+      await recordUsage("coordinator", args.model, totalUsage);
+      if (toolFailure !== undefined) {
+        throw toolFailure;
+      }
 
       return acceptedResults;
     },
-    async generateLearning({
+    async scoreCredibility({
       query,
-      searchResult,
-      maxFollowUpQuestions,
+      results,
+      schedule,
+      recordUsage,
+      withRetry,
       abortSignal,
     }) {
+      const { credibilityScorer } = args;
+      if (credibilityScorer) {
+        return Promise.all(
+          results.map(async (result) => {
+            let assessed: Awaited<ReturnType<typeof credibilityScorer>>;
+            try {
+              assessed = await schedule(async () =>
+                credibilityScorer({ query, result, abortSignal }),
+              );
+            } catch (error) {
+              if (abortSignal?.aborted || isAbortError(error)) {
+                throw error;
+              }
+              return null;
+            }
+            return assessed
+              ? {
+                  score: clampScore(assessed.score),
+                  method: "custom" as const,
+                  reason: assessed.reason,
+                }
+              : null;
+          }),
+        );
+      }
+
+      if (args.credibilityScoring === "off") {
+        return results.map(() => null);
+      }
+
+      const tiers = { ...defaultDomainTiers, ...args.domainTiers };
+      const scores = results.map((result) => scoreByDomainTier(result.url, tiers));
+      const unrated = results.flatMap((result, index) =>
+        scores[index] ? [] : [{ id: index, title: result.title, url: result.url }],
+      );
+      if (unrated.length === 0) {
+        return scores;
+      }
+
+      if (args.credibilityScoring === "static") {
+        return scores.map(
+          (score) =>
+            score ?? {
+              score: unratedCredibilityScore,
+              method: "domain-tier" as const,
+              reason: "No domain tier matches this source.",
+            },
+        );
+      }
+
       throwIfAborted(abortSignal);
+      let output: { assessments: Array<{ id: number; score: number; reason: string }> };
+      try {
+        const completion = await withRetry(
+          "credibility-assessment",
+          () =>
+            schedule(() =>
+              generateText({
+                model: args.model,
+                maxRetries: 0,
+                abortSignal,
+                output: Output.object({
+                  schema: z.object({
+                    assessments: z.array(
+                      z.object({
+                        id: z.number().int(),
+                        score: z.number().min(0).max(1),
+                        reason: z.string().min(1),
+                      }),
+                    ),
+                  }),
+                }),
+                ...renderPrompt(
+                  "credibilityAssessment",
+                  {
+                    query,
+                    sources: unrated.map(({ id, title, url }) => ({
+                      id,
+                      title,
+                      url,
+                      excerpt: results[id]?.content.slice(0, 500) ?? "",
+                    })),
+                  },
+                  args.prompts,
+                ),
+              }),
+            ),
+          { query },
+        );
+        await recordUsage("credibility-assessment", args.model, completion.usage);
+        output = completion.output;
+      } catch (error) {
+        if (abortSignal?.aborted || isAbortError(error)) {
+          throw error;
+        }
+        return scores;
+      }
 
-      const { output } = await generateText({
-        model: args.model,
-        abortSignal,
-        output: Output.object({
-          schema: z.object({
-            learning: z.string().min(1),
-            followUpQuestions: z.array(z.string().min(1)),
-          }),
-        }),
-        prompt: [
-          `Extract one high-value learning from this relevant source for the query "${query}".`,
-          "Also propose concise follow-up questions that would deepen the investigation.",
-          "",
-          JSON.stringify(searchResult, null, 2),
-        ].join("\n"),
-      });
+      const assessments = new Map(
+        output.assessments.map((assessment) => [assessment.id, assessment]),
+      );
+      return scores.map((score, index) => {
+        const assessment = assessments.get(index);
+        if (score || !assessment) {
+          return score;
+        }
 
-      return {
-        query,
-        sourceUrl: searchResult.url,
-        learning: output.learning,
-        followUpQuestions: dedupeStrings(output.followUpQuestions).slice(
-          0,
-          Math.max(1, maxFollowUpQuestions),
-        ),
-      };
+        return {
+          score: clampScore(assessment.score),
+          method: "model" as const,
+          reason: assessment.reason,
+        };
+      });
     },
-    async generateReport({
-      topic,
-      queries,
-      searchResults,
-      learnings,
+    async generateLearnings({
+      query,
+      searchResult,
+      maxFollowUpQuestions,
+      schedule,
+      recordUsage,
+      withRetry,
       abortSignal,
     }) {
       throwIfAborted(abortSignal);
 
-      const { text } = await generateText({
-        model: args.synthesisModel,
-        abortSignal,
-        system:
-          "You write precise Markdown research reports for technical users. Stay grounded in the provided sources.",
-        prompt: buildReportPrompt({
-          topic,
-          queries,
-          searchResults,
-          learnings,
-        }),
+      const claimsMode = args.learningExtraction === "claims";
+      const maxLearnings = Math.max(1, args.maxLearningsPerSource);
+      const learningSchema = z.object({
+        learning: z.string().min(1),
+        followUpQuestions: z.array(z.string().min(1)),
+        ...(outputLanguage ? { originalQuote: z.string().nullable() } : {}),
       });
+      const claimSchema = learningSchema.extend({
+        category: z.enum(["fact", "statistic", "opinion", "forecast"]),
+      });
+      const limitFollowUps = (questions: string[]) =>
+        dedupeStrings(questions).slice(0, Math.max(1, maxFollowUpQuestions));
 
-      return text.trim();
-    },
-  };
-}
+      const extract = async (rendered: {
+        system?: string;
+        prompt: string;
+      }): Promise<Learning[]> => {
+        if (claimsMode) {
+          const { output, usage } = await withRetry(
+            "learning-extraction",
+            () =>
+              schedule(() =>
+                generateText({
+                  model: args.model,
+                  maxRetries: 0,
+                  abortSignal,
+                  output: Output.object({
+                    schema: z.object({
+                      learnings: z.array(claimSchema).min(1),
+                    }),
+                  }),
+                  ...rendered,
+                }),
+              ),
+            { query },
+          );
 
-export async function executeDeepResearchWorkflow(args: {
-  topic: string;
-  options: Required<Pick<DeepResearchCallOptions, "depth" | "breadth">> &
-    Pick<DeepResearchCallOptions, "abortSignal">;
-  deps: WorkflowDependencies;
-  emit?: EventEmitter;
-}): Promise<DeepResearchResult> {
-  const { topic, deps } = args;
-  const { depth, breadth, abortSignal } = args.options;
-  const emit = args.emit ?? (() => undefined);
+          await recordUsage("learning-extraction", args.model, usage);
+          return output.learnings.slice(0, maxLearnings).map((learning) => ({
+            query,
+            sourceUrl: searchResult.url,
+            learning: learning.learning,
+            followUpQuestions: limitFollowUps(learning.followUpQuestions),
+            category: learning.category,
+            ...(typeof learning.originalQuote === "string" && learning.originalQuote
+              ? { originalQuote: learning.originalQuote }
+              : {}),
+          }));
+        }
 
-  const startedAt = createRunTimestamp();
-  const queries: string[] = [];
-  const learnings: Learning[] = [];
-  const searchResults: MinimalSearchResult[] = [];
-  const seenQueries = new Set<string>();
-  const seenUrls = new Set<string>();
-  let completedQueries = 0;
-  let currentStage: "research" | "report" = "research";
+        const { output, usage } = await withRetry(
+          "learning-extraction",
+          () =>
+            schedule(() =>
+              generateText({
+                model: args.model,
+                maxRetries: 0,
+                abortSignal,
+                output: Output.object({
+                  schema: learningSchema,
+                }),
+                ...rendered,
+              }),
+            ),
+          { query },
+        );
 
-  await emit({
-    type: "run-started",
-    topic,
-    depth,
-    breadth,
-  });
+        await recordUsage("learning-extraction", args.model, usage);
+        return [
+          {
+            query,
+            sourceUrl: searchResult.url,
+            learning: output.learning,
+            followUpQuestions: limitFollowUps(output.followUpQuestions),
+            ...(typeof output.originalQuote === "string" && output.originalQuote
+              ? { originalQuote: output.originalQuote }
+              : {}),
+          },
+        ];
+      };
 
-  async function researchTopic(
-    currentTopic: string,
-    remainingDepth: number,
-    currentBreadth: number,
-  ): Promise<void> {
-    throwIfAborted(abortSignal);
+      const mode = args.learningExtraction;
+      const chunks =
+        args.chunkCharacters === undefined
+          ? [searchResult.content]
+          : splitIntoChunks(
+              searchResult.content,
+              args.chunkCharacters,
+              args.chunkOverlapCharacters,
+            ).slice(0, Math.max(1, args.maxChunksPerSource ?? defaultMaxChunksPerSource));
 
-    if (remainingDepth <= 0 || queries.length >= deps.maxQueriesPerRun) {
-      return;
-    }
+      if (chunks.length <= 1) {
+        return extract(
+          renderPrompt(
+            "learningExtraction",
+            {
+              query,
+              source: { ...searchResult, content: chunks[0] ?? "" },
+              mode,
+              maxLearnings,
+              part: null,
+              outputLanguage,
+            },
+            args.prompts,
+          ),
+        );
+      }
+
+      const chunkLearnings = (
+        await settleAll(
+          chunks.map((chunk, index) =>
+            extract(
+              renderPrompt(
+                "learningExtraction",
+                {
+                  query,
+                  source: { ...searchResult, content: chunk },
+                  mode,
+                  maxLearnings,
+                  part: { index, total: chunks.length },
+                  outputLanguage,
+                },
+                args.prompts,
+              ),
+            ),
+          ),
+        )
+      ).flat();
 
-    const generatedQueries = await deps.generateQueries({
-      topic: currentTopic,
-      breadth: currentBreadth,
+      return extract(
+        renderPrompt(
+          "learningReduction",
+          {
+            query,
+            source: searchResult,
+            mode,
+            maxLearnings,
+            learnings: chunkLearnings.map(
+              ({ learning, category, followUpQuestions, originalQuote }) => ({
+                learning,
+                category,
+                followUpQuestions,
+                originalQuote,
+              }),
+            ),
+            outputLanguage,
+          },
+          args.prompts,
+        ),
+      );
+    },
+    async scoreFollowUpTopics({
+      topic,
+      candidates,
+      learnings,
+      recordUsage,
+      withRetry,
       abortSignal,
-    });
+    }) {
+      throwIfAborted(abortSignal);
 
-    const uniqueQueries = generatedQueries
-      .map((query) => query.trim())
-      .filter(Boolean)
-      .filter((query) => !seenQueries.has(query))
-      .slice(0, currentBreadth);
+      const { output, usage } = await withRetry("follow-up-scoring", () =>
+        generateText({
+          model: args.model,
+          maxRetries: 0,
+          abortSignal,
+          output: Output.object({
+            schema: z.object({
+              scores: z.array(
+                z.object({
+                  index: z.number().int().min(0),
+                  score: z.number().min(0).max(1),
+                }),
+              ),
+            }),
+          }),
+          ...renderPrompt(
+            "followUpScoring",
+            { topic, candidates, learnings },
+            args.prompts,
+          ),
+        }),
+      );
 
-    for (const [index, query] of uniqueQueries.entries()) {
-      if (queries.length >= deps.maxQueriesPerRun) {
-        break;
+      await recordUsage("follow-up-scoring", args.model, usage);
+
+      const scores = candidates.map(() => 0);
+      for (const { index, score } of output.scores) {
+        if (index < scores.length) {
+          scores[index] = score;
+        }
       }
+      return scores;
+    },
+    async findContradictions({
+      topic,
+      learnings,
+      recordUsage,
+      withRetry,
+      abortSignal,
+    }) {
+      const measure = (value: unknown) => estimatePromptTokens(JSON.stringify(value));
+      const contradictions: DeepResearchContradiction[] = [];
 
-      seenQueries.add(query);
-      queries.push(query);
-      await emit({
-        type: "query-generated",
-        topic: currentTopic,
-        query,
-        depth: remainingDepth,
-        index,
-      });
+      for (const batch of splitIntoBatches(
+        learnings.map(({ learning, sourceUrl }, id) => ({ id, learning, sourceUrl })),
+        measure,
+        Math.floor(args.maxReportPromptTokens * 0.8),
+      )) {
+        throwIfAborted(abortSignal);
 
-      const acceptedForQuery = await deps.runSearchCoordinator({
-        query,
-        accumulatedUrls: seenUrls,
-        emit,
-        abortSignal,
-      });
+        const { output, usage } = await withRetry("contradiction-detection", () =>
+          generateText({
+            model: args.synthesisModel,
+            maxRetries: 0,
+            abortSignal,
+            output: Output.object({
+              schema: z.object({
+                contradictions: z.array(
+                  z.object({
+                    subject: z.string().min(1),
+                    description: z.string().min(1),
+                    learningIds: z.array(z.number().int()),
+                  }),
+                ),
+              }),
+            }),
+            ...renderPrompt(
+              "contradictionDetection",
+              { topic, learnings: batch, outputLanguage },
+              args.prompts,
+            ),
+          }),
+        );
+        await recordUsage("contradiction-detection", args.synthesisModel, usage);
 
-      for (const result of acceptedForQuery) {
-        throwIfAborted(abortSignal);
+        const byId = new Map(batch.map((item) => [item.id, item]));
+        for (const { subject, description, learningIds } of output.contradictions) {
+          const claims = [...new Set(learningIds)]
+            .map((id) => byId.get(id))
+            .filter((item) => item !== undefined)
+            .map(({ learning, sourceUrl }) => ({ learning, sourceUrl }));
+          const sourceUrls = dedupeStrings(claims.map((claim) => claim.sourceUrl));
+          if (sourceUrls.length < 2) {
+            continue;
+          }
 
-        if (seenUrls.has(result.url)) {
-          continue;
+          contradictions.push({ subject, description, claims, sourceUrls });
         }
+      }
 
-        seenUrls.add(result.url);
-        searchResults.push(result);
+      return contradictions;
+    },
+    async generateReport({
+      topic,
+      queries,
+      searchResults,
+      learnings,
+      citations,
+      contradictions,
+      template,
+      recordUsage,
+      withRetry,
+      abortSignal,
+      onDelta,
+      onReset,
+    }) {
+      throwIfAborted(abortSignal);
 
-        const learning = await deps.generateLearning({
-          query,
-          searchResult: result,
-          maxFollowUpQuestions: deps.maxFollowUpQuestions,
-          abortSignal,
-        });
+      const complete = async (rendered: {
+        system?: string;
+        prompt: string;
+      }): Promise<string> => {
+        const { text, usage } = await withRetry("synthesis", () =>
+          generateText({
+            model: args.synthesisModel,
+            maxRetries: 0,
+            abortSignal,
+            ...rendered,
+          }),
+        );
 
-        learnings.push(learning);
-        await emit({
-          type: "learning-generated",
-          query,
-          learning,
+        await recordUsage("synthesis", args.synthesisModel, usage);
+        return text.trim();
+      };
+
+      const completeStreaming = async (rendered: {
+        system?: string;
+        prompt: string;
+      }): Promise<string> => {
+        if (!onDelta) {
+          return complete(rendered);
+        }
+
+        let streamed = false;
+        const { text, usage } = await withRetry("synthesis", async () => {
+          if (streamed) {
+            streamed = false;
+            await onReset?.();
+          }
+
+          const stream = streamText({
+            model: args.synthesisModel,
+            maxRetries: 0,
+            abortSignal,
+            onError: () => {},
+            ...rendered,
+          });
+          for await (const part of stream.fullStream) {
+            if (part.type === "text-delta") {
+              streamed = true;
+              await onDelta(part.text);
+            } else if (part.type === "error") {
+              throw part.error;
+            }
+          }
+          throwIfAborted(abortSignal);
+
+          return { text: await stream.text, usage: await stream.usage };
         });
 
-        if (remainingDepth > 1 && learning.followUpQuestions.length > 0) {
-          await researchTopic(
-            createFollowUpTopic({
+        await recordUsage("synthesis", args.synthesisModel, usage);
+        return text.trim();
+      };
+
+      const enforceTemplate = async (report: string): Promise<string> => {
+        const missingSections = findMissingSections(report, template);
+        if (missingSections.length === 0) {
+          return report;
+        }
+
+        if (onDelta) {
+          await onReset?.();
+        }
+        return completeStreaming(
+          renderPrompt(
+            "reportRevision",
+            { topic, report, template, missingSections, outputLanguage },
+            args.prompts,
+          ),
+        );
+      };
+
+      const reportPrompt = renderPrompt(
+        "report",
+        {
+          topic,
+          queries,
+          searchResults,
+          learnings,
+          citations,
+          contradictions,
+          template,
+          outputLanguage,
+        },
+        args.prompts,
+      );
+      if (estimatePromptTokens(reportPrompt.prompt) <= args.maxReportPromptTokens) {
+        return enforceTemplate(await completeStreaming(reportPrompt));
+      }
+
+      const materialBudget = Math.floor(args.maxReportPromptTokens * 0.8);
+      const measure = (value: unknown) => estimatePromptTokens(JSON.stringify(value));
+      const sourcesFor = (urls: string[]) =>
+        searchResults
+          .filter((result) => urls.includes(result.url))
+          .map(({ title, url, credibility }) => ({ title, url, credibility }));
+
+      const clusters = new Map<string, Learning[]>();
+      const learningBatches = splitIntoBatches(
+        learnings.map((learning, id) => ({ id, learning })),
+        measure,
+        materialBudget,
+      );
+      for (const batch of learningBatches) {
+        throwIfAborted(abortSignal);
+
+        const { output, usage } = await withRetry("synthesis", () =>
+          generateText({
+            model: args.synthesisModel,
+            maxRetries: 0,
+            abortSignal,
+            output: Output.object({
+              schema: z.object({
+                themes: z.array(
+                  z.object({
+                    theme: z.string().min(1),
+                    learningIds: z.array(z.number().int()),
+                  }),
+                ),
+              }),
+            }),
+            ...renderPrompt(
+              "themeClustering",
+              {
+                topic,
+                learnings: batch.map(({ id, learning }) => ({
+                  id,
+                  learning: learning.learning,
+                  sourceUrl: learning.sourceUrl,
+                })),
+              },
+              args.prompts,
+            ),
+          }),
+        );
+        await recordUsage("synthesis", args.synthesisModel, usage);
+
+        const unassigned = new Map(batch.map(({ id, learning }) => [id, learning]));
+        const assign = (theme: string, learning: Learning) => {
+          clusters.set(theme, [...(clusters.get(theme) ?? []), learning]);
+        };
+        for (const { theme, learningIds } of output.themes) {
+          for (const id of learningIds) {
+            const learning = unassigned.get(id);
+            if (learning) {
+              unassigned.delete(id);
+              assign(theme, learning);
+            }
+          }
+        }
+        for (const learning of unassigned.values()) {
+          assign("Other findings", learning);
+        }
+      }
+
+      const summarize = async (
+        theme: string,
+        material: Learning[] | DeepResearchThemeSummary[],
+      ): Promise<DeepResearchThemeSummary> => {
+        const sourceUrls = dedupeStrings(
+          material.flatMap((item) =>
+            "sourceUrls" in item ? item.sourceUrls : [item.sourceUrl],
+          ),
+        );
+        const summary = await complete(
+          renderPrompt(
+            "themeSummary",
+            {
               topic,
-              query,
-              followUpQuestions: learning.followUpQuestions,
+              theme,
+              material,
+              sources: sourcesFor(sourceUrls),
+              citations,
+              outputLanguage,
+            },
+            args.prompts,
+          ),
+        );
+        return { theme, summary, sourceUrls };
+      };
+
+      let themes: DeepResearchThemeSummary[] = [];
+      for (const [theme, members] of clusters) {
+        for (const part of splitIntoBatches(members, measure, materialBudget)) {
+          themes.push(await summarize(theme, part));
+        }
+      }
+
+      const buildPrompt = () =>
+        renderPrompt(
+          "themedReport",
+          {
+            topic,
+            queries,
+            sources: searchResults.map(({ title, url, credibility }) => ({
+              title,
+              url,
+              credibility,
+            })),
+            themes,
+            citations,
+            contradictions,
+            template,
+            outputLanguage,
+          },
+          args.prompts,
+        );
+      let themedPrompt = buildPrompt();
+      while (
+        estimatePromptTokens(themedPrompt.prompt) > args.maxReportPromptTokens &&
+        themes.length > 1
+      ) {
+        let groups = splitIntoBatches(themes, measure, materialBudget);
+        if (groups.length === themes.length) {
+          groups = splitIntoBatches(themes, () => 1, 2);
+        }
+
+        const merged: DeepResearchThemeSummary[] = [];
+        for (const group of groups) {
+          const [only] = group;
+          merged.push(
+            group.length === 1 && only
+              ? only
+              : await summarize(group.map((item) => item.theme).join(" / "), group),
+          );
+        }
+        themes = merged;
+        themedPrompt = buildPrompt();
+      }
+
+      return enforceTemplate(await completeStreaming(themedPrompt));
+    },
+    async generateStructuredOutput({
+      topic,
+      queries,
+      searchResults,
+      learnings,
+      contradictions,
+      schema,
+      recordUsage,
+      withRetry,
+      abortSignal,
+    }) {
+      throwIfAborted(abortSignal);
+
+      const contentBudget = Math.max(
+        0,
+        Math.floor(args.maxReportPromptTokens * 0.8) * 4 -
+          JSON.stringify({ learnings, contradictions }).length,
+      );
+      const contentLimit = Math.min(
+        excerptCharacters,
+        Math.floor(contentBudget / Math.max(1, searchResults.length)),
+      );
+      const sources = searchResults.map((result) => ({
+        ...result,
+        content: result.content.slice(0, contentLimit),
+      }));
+
+      const { output, usage } = await withRetry("synthesis", () =>
+        generateText({
+          model: args.synthesisModel,
+          maxRetries: 0,
+          abortSignal,
+          output: Output.object({ schema }),
+          ...renderPrompt(
+            "structuredOutput",
+            { topic, queries, sources, learnings, contradictions, outputLanguage },
+            args.prompts,
+          ),
+        }),
+      );
+      await recordUsage("synthesis", args.synthesisModel, usage);
+
+      return output;
+    },
+    async verifyClaims({
+      topic,
+      claims,
+      learnings,
+      searchResults,
+      recordUsage,
+      withRetry,
+      abortSignal,
+    }) {
+      const evidenceBudget = Math.floor(args.maxReportPromptTokens * 0.8) * 4;
+      const learningEvidence = learnings.map(({ sourceUrl, learning }) => ({
+        sourceUrl,
+        learning,
+      }));
+      const remaining = Math.max(
+        0,
+        evidenceBudget - JSON.stringify(learningEvidence).length,
+      );
+      const contentLimit = Math.min(
+        excerptCharacters,
+        Math.floor(remaining / Math.max(1, searchResults.length)),
+      );
+      const evidence = {
+        learnings: learningEvidence,
+        sources: searchResults.map(({ title, url, content }) => ({
+          title,
+          url,
+          content: content.slice(0, contentLimit),
+        })),
+      };
+
+      const verifications: DeepResearchClaimVerification[] = [];
+      for (const batch of splitIntoBatches(claims, () => 1, 20)) {
+        throwIfAborted(abortSignal);
+
+        const { output, usage } = await withRetry("verification", () =>
+          generateText({
+            model: args.synthesisModel,
+            maxRetries: 0,
+            abortSignal,
+            output: Output.object({
+              schema: z.object({
+                verdicts: z.array(
+                  z.object({
+                    id: z.number().int(),
+                    verdict: z.enum(["supported", "partially-supported", "unsupported"]),
+                    sourceUrl: z.string().nullable(),
+                    explanation: z.string().min(1),
+                    revision: z.string(),
+                  }),
+                ),
+              }),
             }),
-            remainingDepth - 1,
-            Math.max(1, Math.ceil(currentBreadth / 2)),
+            ...renderPrompt(
+              "claimVerification",
+              {
+                topic,
+                claims: batch.map((claim, id) => ({ id, claim })),
+                evidence,
+                outputLanguage,
+              },
+              args.prompts,
+            ),
+          }),
+        );
+        await recordUsage("verification", args.synthesisModel, usage);
+
+        const verdicts = new Map(output.verdicts.map((verdict) => [verdict.id, verdict]));
+        for (const [id, claim] of batch.entries()) {
+          const verdict = verdicts.get(id);
+          verifications.push(
+            verdict
+              ? {
+                  claim,
+                  verdict: verdict.verdict,
+                  sourceUrl: verdict.sourceUrl,
+                  explanation: verdict.explanation,
+                  revision: verdict.revision,
+                }
+              : {
+                  claim,
+                  verdict: "unsupported",
+                  sourceUrl: null,
+                  explanation: "The verifier returned no verdict for this claim.",
+                },
           );
         }
       }
 
-      completedQueries += 1;
-      await emit({
-        type: "depth-progress",
-        topic,
-        depth,
-        remainingDepth,
-        completedQueries,
-        acceptedResults: searchResults.length,
-      });
+      return verifications;
+    },
+  };
+}
+
+export type WorkflowOptions<TOutput = unknown> = Required<
+  Pick<DeepResearchCallOptions<TOutput>, "depth" | "breadth">
+> &
+  Pick<
+    DeepResearchCallOptions<TOutput>,
+    | "abortSignal"
+    | "runId"
+    | "maxTokens"
+    | "maxCostUsd"
+    | "deadline"
+    | "timeBudgetMs"
+    | "explorationStrategy"
+    | "outputSchema"
+    | "includeReport"
+    | "approval"
+  > & {
+    reportTemplate?: DeepResearchReportTemplate;
+  };
+
+type TopicItem = Extract<DeepResearchFrontierItem, { kind: "topic" }>;
+type QueryItem = Extract<DeepResearchFrontierItem, { kind: "query" }>;
+type SourceItem = Extract<DeepResearchFrontierItem, { kind: "source" }>;
+
+function frontierItemId(item: DeepResearchFrontierItem): string {
+  return `${item.kind}:${item.key.join(".")}`;
+}
+
+function resolveDeadline(options: WorkflowOptions): number | undefined {
+  const candidates = [
+    options.deadline == null ? undefined : new Date(options.deadline).getTime(),
+    options.timeBudgetMs == null
+      ? undefined
+      : Date.now() + options.timeBudgetMs,
+  ].filter((value): value is number => value != null && Number.isFinite(value));
+
+  return candidates.length > 0 ? Math.min(...candidates) : undefined;
+}
+
+export async function executeDeepResearchWorkflow<TOutput = unknown>(args: {
+  topic: string;
+  options: WorkflowOptions<TOutput>;
+  deps: WorkflowDependencies;
+  checkpoint?: DeepResearchCheckpoint;
+  emit?: EventEmitter;
+}): Promise<DeepResearchResult<TOutput>> {
+  const { topic, deps, checkpoint } = args;
+  const { depth, breadth, abortSignal } = args.options;
+  const emit = args.emit ?? (() => undefined);
+  const deadlineAt = resolveDeadline(args.options);
+  const explorationStrategy =
+    args.options.explorationStrategy ?? "depth-first";
+  const strategy = getExplorationStrategy(explorationStrategy);
+  const reportTemplate = args.options.reportTemplate ?? defaultReportTemplates.standard;
+
+  const runId = checkpoint?.runId ?? args.options.runId ?? createRunId();
+  const startedAt = checkpoint?.startedAt ?? createRunTimestamp();
+  const queryEntries: Array<DeepResearchOrderedEntry<string>> = [
+    ...(checkpoint?.queries ?? []),
+  ];
+  const searchResultEntries: Array<
+    DeepResearchOrderedEntry<MinimalSearchResult>
+  > = [...(checkpoint?.searchResults ?? [])];
+  const learningEntries: Array<DeepResearchOrderedEntry<Learning>> = [
+    ...(checkpoint?.learnings ?? []),
+  ];
+  const seenQueries = new Set<string>(checkpoint?.seenQueries);
+  const canonicalUrl = (url: string) =>
+    canonicalizeUrl(url, deps.urlCanonicalization);
+  const seenUrls = new Set<string>(checkpoint?.seenUrls.map(canonicalUrl));
+  const acceptedSources = createNearDuplicateIndex(deps.nearDuplicateThreshold);
+  for (const entry of searchResultEntries) {
+    acceptedSources.add(entry.value);
+  }
+  const failures: DeepResearchFailure[] = [...(checkpoint?.failures ?? [])];
+  const frontier = new Map<string, DeepResearchFrontierItem>();
+  let deferredTopics: TopicItem[] = [];
+  const usageTracker = createUsageTracker({
+    budget: {
+      maxTokens: args.options.maxTokens,
+      maxCostUsd: args.options.maxCostUsd,
+    },
+    prices: deps.modelPrices,
+    initial: checkpoint?.usage,
+  });
+  let completedQueries = checkpoint?.completedQueries ?? 0;
+  let currentStage: "research" | "report" = "research";
+  let pendingCheckpointWrite = Promise.resolve();
+  let deadlineReached = false;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const researchController = new AbortController();
+  const researchSignal = abortSignal
+    ? AbortSignal.any([abortSignal, researchController.signal])
+    : researchController.signal;
+  const schedule = createConcurrencyLimiter(deps.concurrency, researchSignal);
+  const reportController = new AbortController();
+  const retryPolicy = resolveRetryPolicy(deps.retryPolicy);
+  const notifyRetry = async (notice: RetryNotice) => {
+    await emit({
+      type: "retry-scheduled",
+      stage: notice.stage,
+      query: notice.query,
+      attempt: notice.attempt,
+      maxAttempts: notice.maxAttempts,
+      delayMs: notice.delayMs,
+      error:
+        notice.error instanceof Error
+          ? notice.error.message
+          : String(notice.error),
+    });
+  };
+  const researchRetry = createRetryRunner({
+    policy: retryPolicy,
+    abortSignal: researchSignal,
+    onRetry: notifyRetry,
+  });
+  const reportRetry = createRetryRunner({
+    policy: retryPolicy,
+    abortSignal: reportController.signal,
+    onRetry: notifyRetry,
+  });
+  const forwardAbortToReport = () => {
+    if (!isStopResearchError(abortSignal?.reason)) {
+      reportController.abort(abortSignal?.reason);
     }
+  };
+
+  const initialFrontier: DeepResearchFrontierItem[] = checkpoint
+    ? checkpoint.frontier
+    : [{ kind: "topic", key: [], topic, remainingDepth: depth, breadth }];
+
+  for (const item of initialFrontier) {
+    frontier.set(frontierItemId(item), item);
   }
 
-  try {
-    await researchTopic(topic, depth, breadth);
-    throwIfAborted(abortSignal);
+  function collectFindings() {
+    return {
+      queries: orderedValues(queryEntries),
+      searchResults: orderedValues(searchResultEntries),
+      learnings: orderedValues(learningEntries),
+    };
+  }
 
+  function resolveStopReason(): DeepResearchStopReason | null {
+    if (deadlineReached) {
+      return "deadline";
+    }
+
+    if (abortSignal?.aborted && isStopResearchError(abortSignal.reason)) {
+      return "stop-requested";
+    }
+
+    return null;
+  }
+
+  function describeCutShort(reason: DeepResearchStopReason): DeepResearchCutShort {
+    const pending = [...frontier.values()].sort((left, right) =>
+      compareOrderKeys(left.key, right.key),
+    );
+
+    return {
+      reason,
+      stoppedAt: createRunTimestamp(),
+      pendingTopics: pending.filter((item) => item.kind === "topic").length,
+      pendingQueries: pending.flatMap((item) =>
+        item.kind === "query" ? [item.query] : [],
+      ),
+      pendingSources: pending.flatMap((item) =>
+        item.kind === "source" ? [item.searchResult.url] : [],
+      ),
+    };
+  }
+
+  const recordUsage: UsageRecorder = async (stage, model, usage) => {
+    const recorded = usageTracker.record(stage, model, usage);
     await emit({
-      type: "report-started",
+      type: "usage-recorded",
+      stage,
+      model: describeModel(model),
+      usage: recorded.usage,
+      costUsd: recorded.costUsd,
+      total: usageTracker.summary(),
+    });
+  };
+
+  function advanceFrontier(
+    completed: DeepResearchFrontierItem,
+    next: DeepResearchFrontierItem[],
+  ): void {
+    frontier.delete(frontierItemId(completed));
+    for (const item of next) {
+      frontier.set(frontierItemId(item), item);
+    }
+  }
+
+  function saveCheckpoint(): Promise<void> {
+    const store = deps.checkpointStore;
+    if (!store) {
+      return Promise.resolve();
+    }
+
+    const snapshot: DeepResearchCheckpoint = structuredClone({
+      version: 1,
+      runId,
       topic,
+      depth,
+      breadth,
+      startedAt,
+      updatedAt: createRunTimestamp(),
+      completedQueries,
+      queries: queryEntries,
+      searchResults: searchResultEntries,
+      learnings: learningEntries,
+      seenQueries: [...seenQueries],
+      seenUrls: [...seenUrls],
+      frontier: [...frontier.values()].sort((left, right) =>
+        compareOrderKeys(left.key, right.key),
+      ),
+      usage: usageTracker.summary(),
+      explorationStrategy,
+      reportTemplate,
+      failures,
     });
 
-    currentStage = "report";
-    const report = await deps.generateReport({
+    pendingCheckpointWrite = pendingCheckpointWrite.then(() =>
+      store.save(snapshot),
+    );
+    return pendingCheckpointWrite;
+  }
+
+  async function skipFailedItem(
+    item: DeepResearchFrontierItem,
+    failure: Omit<DeepResearchFailure, "error" | "failedAt">,
+    error: unknown,
+  ): Promise<void> {
+    if (
+      researchSignal.aborted ||
+      isAbortError(error) ||
+      isStopResearchError(error)
+    ) {
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    failures.push({ ...failure, error: message, failedAt: createRunTimestamp() });
+
+    if (failures.length > deps.maxFailures) {
+      const fatal = new Error(
+        `Research failed after ${failures.length} skipped items (maxFailures: ${deps.maxFailures}). Last error: ${message}`,
+        { cause: error },
+      );
+      researchController.abort(fatal);
+      throw fatal;
+    }
+
+    advanceFrontier(item, []);
+    if (item.kind === "source") {
+      const index = searchResultEntries.findIndex(
+        (entry) => compareOrderKeys(entry.key, item.key) === 0,
+      );
+      if (index >= 0) {
+        searchResultEntries.splice(index, 1);
+      }
+    }
+    await saveCheckpoint();
+
+    await emit(
+      failure.kind === "source"
+        ? {
+            type: "source-failed",
+            query: failure.query,
+            url: failure.url ?? "",
+            stage: failure.stage,
+            error: message,
+            failureCount: failures.length,
+          }
+        : {
+            type: "query-failed",
+            query: failure.query,
+            stage: failure.stage,
+            error: message,
+            failureCount: failures.length,
+          },
+    );
+  }
+
+  function runFrontierItem(item: DeepResearchFrontierItem): Promise<void> {
+    switch (item.kind) {
+      case "topic":
+        return researchTopic(item);
+      case "query":
+        return researchQuery(item);
+      case "source":
+        return learnFromSource(item);
+    }
+  }
+
+  await emit({
+    type: "run-started",
+    runId,
+    topic,
+    depth,
+    breadth,
+  });
+
+  async function researchTopic(item: TopicItem): Promise<void> {
+    throwIfAborted(researchSignal);
+
+    if (usageTracker.isExhausted()) {
+      return;
+    }
+
+    if (
+      item.remainingDepth <= 0 ||
+      queryEntries.length >= deps.maxQueriesPerRun
+    ) {
+      advanceFrontier(item, []);
+      await saveCheckpoint();
+      return;
+    }
+
+    let generatedQueries: string[];
+    try {
+      generatedQueries = await schedule(() =>
+        deps.generateQueries({
+          topic: item.topic,
+          breadth: item.breadth,
+          recordUsage,
+          withRetry: researchRetry,
+          abortSignal: researchSignal,
+        }),
+      );
+    } catch (error) {
+      if (item.key.length === 0) {
+        throw error;
+      }
+
+      await skipFailedItem(
+        item,
+        {
+          kind: "query",
+          stage: getFailedStage(error) ?? "query-generation",
+          query: item.topic,
+        },
+        error,
+      );
+      return;
+    }
+
+    let uniqueQueries = generatedQueries
+      .map((query) => query.trim())
+      .filter(Boolean)
+      .filter((query) => !seenQueries.has(query))
+      .slice(0, item.breadth * Math.max(1, deps.searchLanguages?.length ?? 0));
+
+    const onQueriesGenerated = args.options.approval?.onQueriesGenerated;
+    if (onQueriesGenerated) {
+      const approval = {
+        kind: "queries" as const,
+        topic: item.topic,
+        remainingDepth: item.remainingDepth,
+        queries: uniqueQueries,
+      };
+      await emit({
+        type: "awaiting-approval",
+        approval,
+      });
+      const approved = await waitUnlessAborted(
+        onQueriesGenerated({
+          topic: item.topic,
+          remainingDepth: item.remainingDepth,
+          queries: uniqueQueries,
+          abortSignal: researchSignal,
+        }),
+        researchSignal,
+      );
+      uniqueQueries = dedupeStrings(
+        (approved ?? uniqueQueries).map((query) => query.trim()).filter(Boolean),
+      ).filter((query) => !seenQueries.has(query));
+      await emit({
+        type: "approval-resolved",
+        approval: { ...approval, queries: uniqueQueries },
+      });
+    }
+
+    const queryItems: QueryItem[] = [];
+
+    for (const [index, query] of uniqueQueries.entries()) {
+      if (queryEntries.length >= deps.maxQueriesPerRun) {
+        break;
+      }
+
+      if (seenQueries.has(query)) {
+        continue;
+      }
+
+      const key = [...item.key, index];
+      seenQueries.add(query);
+      queryEntries.push({ key, value: query });
+      queryItems.push({
+        kind: "query",
+        key,
+        query,
+        remainingDepth: item.remainingDepth,
+        breadth: item.breadth,
+      });
+    }
+
+    advanceFrontier(item, queryItems);
+    await saveCheckpoint();
+
+    for (const queryItem of queryItems) {
+      await emit({
+        type: "query-generated",
+        topic: item.topic,
+        query: queryItem.query,
+        depth: item.remainingDepth,
+        index: queryItem.key.at(-1) ?? 0,
+      });
+    }
+
+    await settleAll(queryItems.map(runFrontierItem));
+  }
+
+  async function researchQuery(item: QueryItem): Promise<void> {
+    throwIfAborted(researchSignal);
+
+    if (usageTracker.isExhausted()) {
+      return;
+    }
+
+    let acceptedForQuery: MinimalSearchResult[];
+    try {
+      acceptedForQuery = await deps.runSearchCoordinator({
+        query: item.query,
+        accumulatedUrls: seenUrls,
+        acceptedSources,
+        emit,
+        schedule,
+        recordUsage,
+        withRetry: researchRetry,
+        abortSignal: researchSignal,
+      });
+    } catch (error) {
+      await skipFailedItem(
+        item,
+        {
+          kind: "query",
+          stage: getFailedStage(error) ?? "search",
+          query: item.query,
+        },
+        error,
+      );
+      return;
+    }
+
+    let credibility: Array<DeepResearchCredibility | null> = [];
+    try {
+      credibility = await deps.scoreCredibility({
+        query: item.query,
+        results: acceptedForQuery,
+        schedule,
+        recordUsage,
+        withRetry: researchRetry,
+        abortSignal: researchSignal,
+      });
+    } catch (error) {
+      if (researchSignal.aborted || isAbortError(error) || isStopResearchError(error)) {
+        throw error;
+      }
+    }
+    acceptedForQuery = acceptedForQuery.map((result, index) => {
+      const assessed = credibility[index];
+      return assessed ? { ...result, credibility: assessed } : result;
+    });
+
+    const onResultsEvaluated = args.options.approval?.onResultsEvaluated;
+    if (onResultsEvaluated) {
+      const proposed = acceptedForQuery;
+      const approval = {
+        kind: "results" as const,
+        query: item.query,
+        results: proposed,
+      };
+      await emit({
+        type: "awaiting-approval",
+        approval,
+      });
+      acceptedForQuery =
+        (await waitUnlessAborted(
+          onResultsEvaluated({
+            query: item.query,
+            results: proposed,
+            abortSignal: researchSignal,
+          }),
+          researchSignal,
+        )) ?? proposed;
+
+      const approvedUrls = new Set(acceptedForQuery.map((result) => canonicalUrl(result.url)));
+      for (const result of proposed) {
+        const url = canonicalUrl(result.url);
+        if (!approvedUrls.has(url)) {
+          seenUrls.add(url);
+        }
+      }
+      await emit({
+        type: "approval-resolved",
+        approval: { ...approval, results: acceptedForQuery },
+      });
+    }
+
+    const sourceItems: SourceItem[] = [];
+
+    for (const result of acceptedForQuery) {
+      const url = canonicalUrl(result.url);
+      if (seenUrls.has(url)) {
+        continue;
+      }
+
+      const mirrorOf = acceptedSources.find(result.content);
+      if (mirrorOf) {
+        seenUrls.add(url);
+        recordMirror(mirrorOf.source, result.url);
+        continue;
+      }
+
+      const key = [...item.key, sourceItems.length];
+      seenUrls.add(url);
+      acceptedSources.add(result);
+      searchResultEntries.push({ key, value: result });
+      sourceItems.push({
+        kind: "source",
+        key,
+        query: item.query,
+        searchResult: result,
+        remainingDepth: item.remainingDepth,
+        breadth: item.breadth,
+      });
+    }
+
+    advanceFrontier(item, sourceItems);
+    await saveCheckpoint();
+
+    await settleAll(sourceItems.map(runFrontierItem));
+
+    completedQueries += 1;
+    await emit({
+      type: "depth-progress",
       topic,
-      queries,
-      searchResults,
-      learnings,
-      abortSignal,
+      depth,
+      remainingDepth: item.remainingDepth,
+      completedQueries,
+      acceptedResults: searchResultEntries.length,
     });
+  }
+
+  async function learnFromSource(item: SourceItem): Promise<void> {
+    throwIfAborted(researchSignal);
+
+    if (usageTracker.isExhausted()) {
+      return;
+    }
+
+    let learnings: Learning[];
+    try {
+      learnings = await deps.generateLearnings({
+        query: item.query,
+        searchResult: item.searchResult,
+        maxFollowUpQuestions: deps.maxFollowUpQuestions,
+        schedule,
+        recordUsage,
+        withRetry: researchRetry,
+        abortSignal: researchSignal,
+      });
+    } catch (error) {
+      await skipFailedItem(
+        item,
+        {
+          kind: "source",
+          stage: getFailedStage(error) ?? "learning-extraction",
+          query: item.query,
+          url: item.searchResult.url,
+        },
+        error,
+      );
+      return;
+    }
+
+    let followUpQuestions = dedupeStrings(
+      learnings.flatMap((learning) => learning.followUpQuestions),
+    ).slice(0, Math.max(1, deps.maxFollowUpQuestions));
+
+    const onFollowUpTopic = args.options.approval?.onFollowUpTopic;
+    if (onFollowUpTopic && item.remainingDepth > 1 && followUpQuestions.length > 0) {
+      const approval = {
+        kind: "follow-up" as const,
+        query: item.query,
+        learnings,
+        followUpQuestions,
+      };
+      await emit({
+        type: "awaiting-approval",
+        approval,
+      });
+      const approved = await waitUnlessAborted(
+        onFollowUpTopic({
+          query: item.query,
+          learnings,
+          followUpQuestions,
+          abortSignal: researchSignal,
+        }),
+        researchSignal,
+      );
+      followUpQuestions = dedupeStrings(
+        (approved ?? followUpQuestions).map((question) => question.trim()).filter(Boolean),
+      );
+      await emit({
+        type: "approval-resolved",
+        approval: { ...approval, followUpQuestions },
+      });
+    }
+    const followUpItems: TopicItem[] =
+      item.remainingDepth > 1 && followUpQuestions.length > 0
+        ? [
+            {
+              kind: "topic",
+              key: item.key,
+              topic: createFollowUpTopic({
+                topic,
+                query: item.query,
+                followUpQuestions,
+              }),
+              remainingDepth: item.remainingDepth - 1,
+              breadth: applyBreadthDecay(deps.breadthDecay, {
+                breadth: item.breadth,
+                remainingDepth: item.remainingDepth - 1,
+              }),
+            },
+          ]
+        : [];
+
+    learningEntries.push(
+      ...learnings.map((learning) => ({ key: item.key, value: learning })),
+    );
+    advanceFrontier(item, followUpItems);
+    await saveCheckpoint();
+
+    for (const learning of learnings) {
+      await emit({
+        type: "learning-generated",
+        query: item.query,
+        learning,
+      });
+    }
+
+    await expandFollowUps(followUpItems);
+  }
+
+  async function expandFollowUps(items: TopicItem[]): Promise<void> {
+    if (strategy.expandImmediately) {
+      await settleAll(items.map(runFrontierItem));
+      return;
+    }
+
+    deferredTopics.push(...items);
+  }
+
+  async function scoreDeferredTopics(): Promise<void> {
+    const unscored = deferredTopics.filter((item) => item.priority == null);
+    if (unscored.length === 0 || usageTracker.isExhausted()) {
+      return;
+    }
+
+    const scores = await schedule(() =>
+      deps.scoreFollowUpTopics({
+        topic,
+        candidates: unscored.map((item) => item.topic),
+        learnings: orderedValues(learningEntries),
+        recordUsage,
+        withRetry: researchRetry,
+        abortSignal: researchSignal,
+      }),
+    );
+
+    for (const [index, item] of unscored.entries()) {
+      item.priority = scores[index] ?? 0;
+    }
+    await saveCheckpoint();
+  }
+
+  async function exploreDeferredTopics(): Promise<void> {
+    while (deferredTopics.length > 0) {
+      throwIfAborted(researchSignal);
+
+      if (strategy.requiresScores) {
+        await scoreDeferredTopics();
+      }
+
+      const wave = strategy.selectWave(deferredTopics, deps.concurrency);
+      deferredTopics = deferredTopics.filter((item) => !wave.includes(item));
+      await settleAll(wave.map(runFrontierItem));
+    }
+  }
+
+  async function runResearchPhase(): Promise<DeepResearchCutShort | null> {
+    if (deadlineAt !== undefined) {
+      deadlineTimer = setTimeout(() => {
+        deadlineReached = true;
+        researchController.abort(
+          createStopResearchError("The research deadline was reached."),
+        );
+      }, Math.max(0, deadlineAt - Date.now()));
+    }
+
+    try {
+      await settleAll(
+        initialFrontier.map((item) =>
+          item.kind === "topic" && item.key.length > 0
+            ? expandFollowUps([item])
+            : runFrontierItem(item),
+        ),
+      );
+      await exploreDeferredTopics();
+      throwIfAborted(researchSignal);
+      return usageTracker.isExhausted() && frontier.size > 0
+        ? describeCutShort("budget")
+        : null;
+    } catch (error) {
+      const stopReason = resolveStopReason();
+      if (stopReason) {
+        return describeCutShort(stopReason);
+      }
+
+      throw researchController.signal.aborted ? researchController.signal.reason : error;
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+  }
+
+  abortSignal?.addEventListener("abort", forwardAbortToReport, { once: true });
+  if (abortSignal?.aborted) {
+    forwardAbortToReport();
+  }
+
+  try {
+    await saveCheckpoint();
+    const cutShort = await runResearchPhase();
+    const status: DeepResearchStatus = cutShort ? "partial" : "completed";
+
+    const { queries, searchResults, learnings } = collectFindings();
 
     await emit({
-      type: "report-completed",
+      type: "report-started",
       topic,
-      report,
     });
 
-    const result: DeepResearchResult = {
-      status: "completed",
+    currentStage = "report";
+    let contradictions: DeepResearchContradiction[] = [];
+    if (deps.detectContradictions) {
+      contradictions = await deps.findContradictions({
+        topic,
+        learnings,
+        recordUsage,
+        withRetry: reportRetry,
+        abortSignal: reportController.signal,
+      });
+      for (const contradiction of contradictions) {
+        await emit({
+          type: "contradiction-detected",
+          contradiction,
+        });
+      }
+    }
+
+    let report: string | null = null;
+    let citations: DeepResearchCitation[] = [];
+    let citationIssues: DeepResearchCitationIssue[] = [];
+    let missingSections: string[] = [];
+    let verifiedClaims: DeepResearchClaimVerification[] = [];
+    if (args.options.includeReport ?? true) {
+      const numbered = deps.citationStyle === "numbered";
+      const sourceCitations = numbered ? createCitations(searchResults) : [];
+      const draft = ensureConflictingEvidenceSection(
+        await deps.generateReport({
+          topic,
+          queries,
+          searchResults,
+          learnings,
+          citations: sourceCitations,
+          contradictions,
+          template: reportTemplate,
+          recordUsage,
+          withRetry: reportRetry,
+          abortSignal: reportController.signal,
+          onDelta: args.emit
+            ? (delta) =>
+                emit({
+                  type: "report-delta",
+                  topic,
+                  delta,
+                })
+            : undefined,
+          onReset: args.emit
+            ? () =>
+                emit({
+                  type: "report-reset",
+                  topic,
+                })
+            : undefined,
+        }),
+        contradictions,
+        reportTemplate,
+      );
+      missingSections = findMissingSections(draft, reportTemplate);
+      const cited = numbered
+        ? applyNumberedCitations({
+            report: draft,
+            citations: sourceCitations,
+            validation: deps.citationValidation ?? "strip",
+            canonicalUrl,
+          })
+        : { report: draft, citations: [], issues: [] };
+      citations = cited.citations;
+      citationIssues = cited.issues;
+
+      const verificationMode = deps.claimVerification ?? "off";
+      report = cited.report;
+      if (verificationMode !== "off") {
+        verifiedClaims = await deps.verifyClaims({
+          topic,
+          claims: splitReportIntoClaims(cited.report),
+          learnings,
+          searchResults,
+          recordUsage,
+          withRetry: reportRetry,
+          abortSignal: reportController.signal,
+        });
+        for (const verification of verifiedClaims) {
+          await emit({
+            type: "claim-verified",
+            verification,
+          });
+        }
+        report = applyClaimVerifications(cited.report, verifiedClaims, verificationMode);
+      }
+
+      await emit({
+        type: "report-completed",
+        topic,
+        report,
+      });
+    }
+
+    let output: TOutput | null = null;
+    if (args.options.outputSchema) {
+      const validated = validateSourceUrls({
+        output: await deps.generateStructuredOutput({
+          topic,
+          queries,
+          searchResults,
+          learnings,
+          contradictions,
+          schema: args.options.outputSchema,
+          recordUsage,
+          withRetry: reportRetry,
+          abortSignal: reportController.signal,
+        }),
+        searchResults,
+        canonicalUrl,
+      });
+      output = validated.output;
+      citationIssues = [...citationIssues, ...validated.issues];
+    }
+
+    const result: DeepResearchResult<TOutput> = {
+      status,
       topic,
       queries,
       searchResults,
       learnings,
       report,
+      output,
+      citations,
+      contradictions,
+      verifiedClaims,
       metadata: {
-        status: "completed",
+        status,
+        runId,
         depth,
         breadth,
         startedAt,
@@ -485,9 +2416,20 @@ export async function executeDeepResearchWorkflow(args: {
         synthesisModel: describeModel(deps.synthesisModel),
         totalQueries: queries.length,
         totalAcceptedResults: searchResults.length,
+        usage: usageTracker.summary(),
+        cutShort,
+        failures,
+        citationIssues,
+        reportTemplate: reportTemplate.name,
+        missingSections,
       },
     };
 
+    await pendingCheckpointWrite;
+    if (!cutShort) {
+      await deps.checkpointStore?.delete(runId);
+    }
+
     await emit({
       type: "run-completed",
       result,
@@ -505,6 +2447,7 @@ export async function executeDeepResearchWorkflow(args: {
     });
 
     if (aborted) {
+      const { queries, searchResults, learnings } = collectFindings();
       return {
         status: "aborted",
         topic,
@@ -512,8 +2455,13 @@ export async function executeDeepResearchWorkflow(args: {
         searchResults,
         learnings,
         report: null,
+        output: null,
+        citations: [],
+        contradictions: [],
+        verifiedClaims: [],
         metadata: {
           status: "aborted",
+          runId,
           depth,
           breadth,
           startedAt,
@@ -522,11 +2470,19 @@ export async function executeDeepResearchWorkflow(args: {
           synthesisModel: describeModel(deps.synthesisModel),
           totalQueries: queries.length,
           totalAcceptedResults: searchResults.length,
+          usage: usageTracker.summary(),
+          cutShort: null,
+          failures,
+          citationIssues: [],
+          reportTemplate: reportTemplate.name,
+          missingSections: [],
         },
       };
     }
 
     throw error;
+  } finally {
+    abortSignal?.removeEventListener("abort", forwardAbortToReport);
   }
 }
 
@@ -591,9 +2547,9 @@ function createAsyncEventQueue<T>() {
 
 export function streamDeepResearchWorkflow(args: {
   topic: string;
-  options: Required<Pick<DeepResearchCallOptions, "depth" | "breadth">> &
-    Pick<DeepResearchCallOptions, "abortSignal">;
+  options: WorkflowOptions;
   deps: WorkflowDependencies;
+  checkpoint?: DeepResearchCheckpoint;
 }): AsyncIterable<DeepResearchEvent> {
   const queue = createAsyncEventQueue<DeepResearchEvent>();
 
@@ -601,6 +2557,7 @@ export function streamDeepResearchWorkflow(args: {
     topic: args.topic,
     options: args.options,
     deps: args.deps,
+    checkpoint: args.checkpoint,
     emit: async (event) => {
       queue.push(event);
     },
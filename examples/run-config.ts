@@ -111,16 +111,56 @@ function logEvent(event: DeepResearchEvent): DeepResearchResult | null {
     case "learning-generated":
       console.log(`[learning-generated] ${truncate(event.learning.learning, 120)}`);
       return null;
+    case "query-failed":
+      console.warn(
+        `[query-failed] stage=${event.stage} query="${event.query}" failures=${event.failureCount} :: ${truncate(event.error, 100)}`,
+      );
+      return null;
+    case "source-failed":
+      console.warn(
+        `[source-failed] stage=${event.stage} ${event.url} failures=${event.failureCount} :: ${truncate(event.error, 100)}`,
+      );
+      return null;
+    case "contradiction-detected":
+      console.log(
+        `[contradiction-detected] ${event.contradiction.subject} :: ${event.contradiction.sourceUrls.join(", ")}`,
+      );
+      return null;
+    case "claim-verified":
+      console.log(
+        `[claim-verified] ${event.verification.verdict} :: ${truncate(event.verification.claim, 100)}`,
+      );
+      return null;
     case "depth-progress":
       console.log(
         `[depth-progress] completedQueries=${event.completedQueries} acceptedResults=${event.acceptedResults} remainingDepth=${event.remainingDepth}`,
       );
       return null;
+    case "usage-recorded":
+      console.log(
+        `[usage-recorded] stage=${event.stage} tokens=${event.usage.totalTokens} runTokens=${event.total.totalTokens} runCostUsd=${event.total.costUsd.toFixed(4)}`,
+      );
+      return null;
+    case "retry-scheduled":
+      console.warn(
+        `[retry-scheduled] stage=${event.stage} attempt=${event.attempt}/${event.maxAttempts} delayMs=${event.delayMs} :: ${truncate(event.error, 100)}`,
+      );
+      return null;
+    case "awaiting-approval":
+    case "approval-resolved":
+      console.log(`[${event.type}] kind=${event.approval.kind}`);
+      return null;
     case "report-started":
       console.log(`[report-started] Synthesizing final report for "${event.topic}"`);
       return null;
+    case "report-delta":
+      process.stdout.write(event.delta);
+      return null;
+    case "report-reset":
+      console.log("\n[report-reset] Retrying the report; discarding the text streamed so far");
+      return null;
     case "report-completed":
-      console.log(`[report-completed] reportLength=${event.report.length} characters`);
+      console.log(`\n[report-completed] reportLength=${event.report.length} characters`);
       return null;
     case "run-error":
       console.error(
@@ -1,16 +1,45 @@
 import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { MockLanguageModelV3 } from "ai/test";
+import {
+  createFileCheckpointStore,
+  createMemoryCheckpointStore,
+} from "../common/deep-research/checkpoint";
+import { createNearDuplicateIndex } from "../common/deep-research/dedupe";
+import {
+  createCslJson,
+  createReportJsonLd,
+  renderBibTeX,
+  renderReportHtml,
+} from "../common/deep-research/export";
+import { withSourceUrls } from "../common/deep-research/output";
 import { buildReportPrompt } from "../common/deep-research/report";
-import { normalizeTopic, parseModelReference } from "../common/deep-research/utils";
+import { isRetryableError } from "../common/deep-research/retry";
+import { resolveReportTemplate } from "../common/deep-research/templates";
+import { canonicalizeUrl } from "../common/deep-research/urls";
 import {
+  createConcurrencyLimiter,
+  createStopResearchError,
+  normalizeTopic,
+  parseModelReference,
+  splitIntoBatches,
+  splitIntoChunks,
+} from "../common/deep-research/utils";
+import {
+  createWorkflowDependencies,
   executeDeepResearchWorkflow,
   streamDeepResearchWorkflow,
   type WorkflowDependencies,
 } from "../common/deep-research/workflow";
+import { APICallError, simulateReadableStream, type LanguageModelUsage } from "ai";
+import { z } from "zod";
 import type {
   DeepResearchEvent,
   Learning,
   MinimalSearchResult,
+  SearchExecutor,
 } from "../common/deep-research/types";
 
 const mockModel = new MockLanguageModelV3({
@@ -18,6 +47,49 @@ const mockModel = new MockLanguageModelV3({
   modelId: "mock-model",
 });
 
+function createUsage(inputTokens: number, outputTokens: number): LanguageModelUsage {
+  return {
+    inputTokens,
+    inputTokenDetails: {
+      noCacheTokens: undefined,
+      cacheReadTokens: undefined,
+      cacheWriteTokens: undefined,
+    },
+    outputTokens,
+    outputTokenDetails: {
+      textTokens: undefined,
+      reasoningTokens: undefined,
+    },
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+function createApiCallError(statusCode: number): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://api.example.com",
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+function waitForAbort(abortSignal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+
+    abortSignal?.addEventListener(
+      "abort",
+      () => {
+        reject(abortSignal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
 function createDeps(): WorkflowDependencies {
   const resultByQuery = new Map<string, MinimalSearchResult[]>([
     [
@@ -53,6 +125,8 @@ function createDeps(): WorkflowDependencies {
     maxResultsPerQuery: 3,
     maxQueriesPerRun: 10,
     maxFollowUpQuestions: 2,
+    maxFailures: 0,
+    concurrency: 1,
     async generateQueries({ topic }) {
       if (topic.startsWith("Original topic:")) {
         return ["follow-up-query"];
@@ -92,16 +166,27 @@ function createDeps(): WorkflowDependencies {
 
       return accepted;
     },
-    async generateLearning({ query, searchResult }) {
+    async scoreCredibility({ results }) {
+      return results.map(() => null);
+    },
+    async generateLearnings({ query, searchResult }) {
       const followUpQuestions =
         query === "root-query" ? ["What changed after the initial source?"] : [];
 
-      return {
-        query,
-        sourceUrl: searchResult.url,
-        learning: `Learning for ${searchResult.title}`,
-        followUpQuestions,
-      } satisfies Learning;
+      return [
+        {
+          query,
+          sourceUrl: searchResult.url,
+          learning: `Learning for ${searchResult.title}`,
+          followUpQuestions,
+        } satisfies Learning,
+      ];
+    },
+    async scoreFollowUpTopics({ candidates }) {
+      return candidates.map(() => 0.5);
+    },
+    async findContradictions() {
+      return [];
     },
     async generateReport({ queries, searchResults, learnings }) {
       return [
@@ -111,7 +196,141 @@ function createDeps(): WorkflowDependencies {
         `Learnings: ${learnings.length}`,
       ].join("\n");
     },
+    async generateStructuredOutput() {
+      throw new Error("No output schema was requested.");
+    },
+    async verifyClaims({ claims }) {
+      return claims.map((claim) => ({
+        claim,
+        verdict: "supported" as const,
+        sourceUrl: null,
+        explanation: "supported",
+      }));
+    },
+  };
+}
+
+function createExplorationDeps(): WorkflowDependencies {
+  const deps = createDeps();
+  deps.generateQueries = async ({ topic }) => {
+    const previousQuery = /Previous query: (.+)/.exec(topic)?.[1];
+    return previousQuery ? [`follow-up-${previousQuery}`] : ["query-1", "query-2"];
   };
+  deps.runSearchCoordinator = async ({ query }) => [
+    {
+      title: `Source for ${query}`,
+      url: `https://example.com/${query}`,
+      content: `Content for ${query}`,
+    },
+  ];
+  deps.generateLearnings = async ({ query, searchResult }) => [
+    {
+      query,
+      sourceUrl: searchResult.url,
+      learning: `Learning for ${query}`,
+      followUpQuestions: query.startsWith("follow-up") ? [] : [`More on ${query}?`],
+    },
+  ];
+  return deps;
+}
+
+function createScriptedModel(
+  respond: (request: {
+    toolName?: string;
+    tools: string[];
+    prompt: string;
+  }) => { toolCall: { toolName: string; input: unknown } } | { text: string },
+): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doGenerate: async (options) => {
+      const reply = respond({
+        toolName:
+          options.toolChoice?.type === "tool" ? options.toolChoice.toolName : undefined,
+        tools:
+          options.toolChoice?.type === "none"
+            ? []
+            : (options.tools ?? []).map((tool) => tool.name),
+        prompt: JSON.stringify(options.prompt),
+      });
+
+      return {
+        content:
+          "toolCall" in reply
+            ? [
+                {
+                  type: "tool-call" as const,
+                  toolCallId: `${reply.toolCall.toolName}-call`,
+                  toolName: reply.toolCall.toolName,
+                  input: JSON.stringify(reply.toolCall.input),
+                },
+              ]
+            : [{ type: "text" as const, text: reply.text }],
+        finishReason: {
+          unified: "toolCall" in reply ? ("tool-calls" as const) : ("stop" as const),
+          raw: undefined,
+        },
+        usage: {
+          inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+          outputTokens: { total: 1, text: 1, reasoning: 0 },
+        },
+        warnings: [],
+      };
+    },
+  });
+}
+
+function createStreamingModel(deltas: string[], chunkDelayInMs?: number): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunkDelayInMs,
+        chunks: [
+          { type: "stream-start" as const, warnings: [] },
+          { type: "text-start" as const, id: "text" },
+          ...deltas.map((delta) => ({ type: "text-delta" as const, id: "text", delta })),
+          { type: "text-end" as const, id: "text" },
+          {
+            type: "finish" as const,
+            finishReason: { unified: "stop" as const, raw: undefined },
+            usage: {
+              inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+              outputTokens: { total: 1, text: 1, reasoning: 0 },
+            },
+          },
+        ],
+      }),
+    }),
+  });
+}
+
+function createCoordinatorDeps(
+  model: MockLanguageModelV3,
+  search: SearchExecutor,
+  overrides: Partial<Parameters<typeof createWorkflowDependencies>[0]> = {},
+): WorkflowDependencies {
+  return createWorkflowDependencies({
+    model,
+    synthesisModel: model,
+    search,
+    maxResultsPerQuery: 3,
+    maxQueriesPerRun: 10,
+    maxFollowUpQuestions: 0,
+    maxFailures: 0,
+    concurrency: 1,
+    relevanceEvaluation: "per-result",
+    maxEvaluationBatchCharacters: 350,
+    coordinatorMode: "deterministic",
+    maxSearchReformulations: 2,
+    minAcceptedResults: 1,
+    credibilityScoring: "off",
+    learningExtraction: "single",
+    maxLearningsPerSource: 5,
+    chunkCharacters: 4_000,
+    chunkOverlapCharacters: 0,
+    maxChunksPerSource: 1,
+    maxReportPromptTokens: 100_000,
+    ...overrides,
+  });
 }
 
 describe("deep research workflow", () => {
@@ -166,6 +385,2032 @@ describe("deep research workflow", () => {
     expect(result.searchResults).toHaveLength(1);
   });
 
+  test("runs queries concurrently up to the limit with deterministic ordering", async () => {
+    const deps = createDeps();
+    deps.concurrency = 2;
+    deps.maxQueriesPerRun = 3;
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const delays = new Map([
+      ["query-a", 30],
+      ["query-b", 20],
+      ["query-c", 10],
+      ["query-d", 0],
+    ]);
+
+    deps.generateQueries = async () => ["query-a", "query-b", "query-c", "query-d"];
+    deps.runSearchCoordinator = async ({ query }) => [
+      {
+        title: `Source for ${query}`,
+        url: `https://example.com/${query}`,
+        content: `Content for ${query}`,
+      },
+    ];
+    deps.generateLearnings = async ({ query, searchResult, schedule }) =>
+      schedule(async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Bun.sleep(delays.get(query) ?? 0);
+        inFlight -= 1;
+
+        return [
+          {
+            query,
+            sourceUrl: searchResult.url,
+            learning: `Learning for ${query}`,
+            followUpQuestions: [],
+          },
+        ];
+      });
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 4, abortSignal: undefined },
+      deps,
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(result.queries).toEqual(["query-a", "query-b", "query-c"]);
+    expect(result.learnings.map((learning) => learning.query)).toEqual([
+      "query-a",
+      "query-b",
+      "query-c",
+    ]);
+    expect(result.searchResults.map((result) => result.url)).toEqual([
+      "https://example.com/query-a",
+      "https://example.com/query-b",
+      "https://example.com/query-c",
+    ]);
+  });
+
+  test("resumes a failed run from its last checkpoint", async () => {
+    const store = createMemoryCheckpointStore();
+    const deps = createDeps();
+    deps.checkpointStore = store;
+
+    const generateLearnings = deps.generateLearnings;
+    const generatedTopics: string[] = [];
+    const generateQueries = deps.generateQueries;
+    deps.generateQueries = async (args) => {
+      generatedTopics.push(args.topic);
+      return generateQueries(args);
+    };
+    deps.generateLearnings = async (args) => {
+      if (args.query === "follow-up-query") {
+        throw new Error("process crashed");
+      }
+      return generateLearnings(args);
+    };
+
+    await expect(
+      executeDeepResearchWorkflow({
+        topic: "topic",
+        options: { depth: 2, breadth: 2, runId: "run-1", abortSignal: undefined },
+        deps,
+      }),
+    ).rejects.toThrow("process crashed");
+
+    const checkpoint = await store.load("run-1");
+    expect(checkpoint?.queries.map((entry) => entry.value)).toEqual([
+      "root-query",
+      "follow-up-query",
+    ]);
+    expect(checkpoint?.frontier.map((item) => item.kind)).toEqual(["source"]);
+
+    deps.generateLearnings = generateLearnings;
+    generatedTopics.length = 0;
+
+    const result = await executeDeepResearchWorkflow({
+      topic: checkpoint!.topic,
+      options: { depth: checkpoint!.depth, breadth: checkpoint!.breadth },
+      deps,
+      checkpoint: checkpoint!,
+    });
+
+    expect(generatedTopics).toEqual([]);
+    expect(result.status).toBe("completed");
+    expect(result.metadata.runId).toBe("run-1");
+    expect(result.learnings.map((learning) => learning.sourceUrl)).toEqual([
+      "https://example.com/root",
+      "https://example.com/follow-up",
+    ]);
+    expect(await store.load("run-1")).toBeNull();
+  });
+
+  test("re-checks the restored usage against the budget of the resumed run", async () => {
+    const store = createMemoryCheckpointStore();
+    const deps = createDeps();
+    deps.checkpointStore = store;
+    const generateLearnings = deps.generateLearnings;
+    deps.generateLearnings = async (args) => {
+      if (args.query === "follow-up-query") {
+        throw new Error("process crashed");
+      }
+      return generateLearnings(args);
+    };
+
+    await expect(
+      executeDeepResearchWorkflow({
+        topic: "topic",
+        options: { depth: 2, breadth: 2, runId: "run-1" },
+        deps,
+      }),
+    ).rejects.toThrow("process crashed");
+
+    const checkpoint = (await store.load("run-1"))!;
+    const usage = checkpoint.usage!;
+    const { verification: _verification, ...olderStages } = usage.stages;
+    checkpoint.usage = {
+      ...usage,
+      totalTokens: 500,
+      budgetExhausted: true,
+      stages: olderStages as typeof usage.stages,
+    };
+    deps.generateLearnings = generateLearnings;
+
+    const result = await executeDeepResearchWorkflow({
+      topic: checkpoint.topic,
+      options: { depth: checkpoint.depth, breadth: checkpoint.breadth, maxTokens: 1_000 },
+      deps,
+      checkpoint,
+    });
+
+    expect(result.learnings.map((learning) => learning.sourceUrl)).toEqual([
+      "https://example.com/root",
+      "https://example.com/follow-up",
+    ]);
+    expect(result.metadata.usage.budgetExhausted).toBe(false);
+    expect(result.metadata.usage.stages.verification.calls).toBe(0);
+  });
+
+  test("file checkpoint store round-trips checkpoints", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "deep-research-"));
+    const store = createFileCheckpointStore({ directory });
+
+    try {
+      const deps = createDeps();
+      deps.checkpointStore = store;
+      deps.generateReport = async () => {
+        throw new Error("synthesis failed");
+      };
+
+      await expect(
+        executeDeepResearchWorkflow({
+          topic: "topic",
+          options: { depth: 1, breadth: 1, runId: "file-run" },
+          deps,
+        }),
+      ).rejects.toThrow("synthesis failed");
+
+      const checkpoint = await store.load("file-run");
+      expect(checkpoint?.topic).toBe("topic");
+      expect(checkpoint?.seenUrls).toEqual(["https://example.com/root"]);
+      expect(checkpoint?.frontier).toEqual([]);
+      expect(await store.load("missing-run")).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("tracks usage per stage and stops research once the budget is exhausted", async () => {
+    const store = createMemoryCheckpointStore();
+    const deps = createDeps();
+    deps.checkpointStore = store;
+    const events: DeepResearchEvent[] = [];
+    const generateQueries = deps.generateQueries;
+    const generateLearnings = deps.generateLearnings;
+
+    deps.modelPrices = {
+      "mock-model": { inputPerMillionTokens: 1_000, outputPerMillionTokens: 2_000 },
+    };
+    deps.generateQueries = async (args) => {
+      await args.recordUsage("query-generation", mockModel, createUsage(40, 20));
+      return generateQueries(args);
+    };
+    deps.generateLearnings = async (args) => {
+      await args.recordUsage("learning-extraction", mockModel, createUsage(30, 20));
+      return generateLearnings(args);
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2, maxTokens: 100, runId: "run-1" },
+      deps,
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.metadata.cutShort).toMatchObject({ reason: "budget", pendingTopics: 1 });
+    expect(result.queries).toEqual(["root-query"]);
+    expect(result.report).toContain("# Report");
+    expect(result.metadata.usage.totalTokens).toBe(110);
+    expect(result.metadata.usage.budgetExhausted).toBe(true);
+    expect(result.metadata.usage.stages["query-generation"]).toEqual({
+      calls: 1,
+      inputTokens: 40,
+      outputTokens: 20,
+      totalTokens: 60,
+      costUsd: 0.08,
+    });
+    expect(result.metadata.usage.stages["learning-extraction"].calls).toBe(1);
+    expect(
+      events.filter((event) => event.type === "usage-recorded"),
+    ).toHaveLength(2);
+
+    const checkpoint = await store.load("run-1");
+    expect(checkpoint).not.toBeNull();
+    const resumed = await executeDeepResearchWorkflow({
+      topic: checkpoint!.topic,
+      options: { depth: checkpoint!.depth, breadth: checkpoint!.breadth, maxTokens: 1_000 },
+      deps,
+      checkpoint: checkpoint!,
+    });
+
+    expect(resumed.status).toBe("completed");
+    expect(resumed.queries).toEqual(["root-query", "follow-up-query"]);
+    expect(await store.load("run-1")).toBeNull();
+  });
+
+  test("writes a partial report when the time budget runs out", async () => {
+    const deps = createDeps();
+    const generateLearnings = deps.generateLearnings;
+    deps.generateLearnings = async (args) => {
+      if (args.query === "follow-up-query") {
+        await waitForAbort(args.abortSignal);
+      }
+      return generateLearnings(args);
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2, timeBudgetMs: 20 },
+      deps,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.report).toContain("Learnings: 1");
+    expect(result.metadata.cutShort).toMatchObject({
+      reason: "deadline",
+      pendingTopics: 0,
+      pendingQueries: [],
+      pendingSources: ["https://example.com/follow-up"],
+    });
+  });
+
+  test("writes a partial report when a stop is requested through the abort signal", async () => {
+    const deps = createDeps();
+    const controller = new AbortController();
+    const generateLearnings = deps.generateLearnings;
+    deps.generateLearnings = async (args) => {
+      if (args.query === "follow-up-query") {
+        controller.abort(createStopResearchError());
+        await waitForAbort(args.abortSignal);
+      }
+      return generateLearnings(args);
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2, abortSignal: controller.signal },
+      deps,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.report).toContain("# Report");
+    expect(result.metadata.cutShort?.reason).toBe("stop-requested");
+  });
+
+  test("breadth-first exploration finishes a level before expanding follow-ups", async () => {
+    const deps = createExplorationDeps();
+    const calls: string[] = [];
+    const generateQueries = deps.generateQueries;
+    const generateLearnings = deps.generateLearnings;
+    deps.breadthDecay = "constant";
+    deps.generateQueries = async (args) => {
+      calls.push(`queries:${args.breadth}:${args.topic.split("\n")[1] ?? "root"}`);
+      return generateQueries(args);
+    };
+    deps.generateLearnings = async (args) => {
+      calls.push(`learning:${args.query}`);
+      return generateLearnings(args);
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2, explorationStrategy: "breadth-first" },
+      deps,
+    });
+
+    expect(calls.slice(0, 3)).toEqual([
+      "queries:2:root",
+      "learning:query-1",
+      "learning:query-2",
+    ]);
+    expect(calls).toContain("queries:2:Previous query: query-1");
+    expect(result.queries).toEqual([
+      "query-1",
+      "follow-up-query-1",
+      "query-2",
+      "follow-up-query-2",
+    ]);
+  });
+
+  test("best-first exploration expands the highest scored follow-up first", async () => {
+    const deps = createExplorationDeps();
+    deps.maxQueriesPerRun = 3;
+    deps.scoreFollowUpTopics = async ({ candidates }) =>
+      candidates.map((candidate) => (candidate.includes("query-2") ? 0.9 : 0.1));
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2, explorationStrategy: "best-first" },
+      deps,
+    });
+
+    expect(result.queries).toEqual(["query-1", "query-2", "follow-up-query-2"]);
+  });
+
+  test("retries transient failures and emits retry-scheduled events", async () => {
+    const deps = createDeps();
+    const events: DeepResearchEvent[] = [];
+    const generateLearnings = deps.generateLearnings;
+    let attempts = 0;
+
+    deps.retryPolicy = { initialDelayMs: 0, jitter: 0 };
+    deps.generateLearnings = async (args) =>
+      args.withRetry(
+        "learning-extraction",
+        async () => {
+          attempts += 1;
+          if (attempts === 1) {
+            throw createApiCallError(429);
+          }
+          return generateLearnings(args);
+        },
+        { query: args.query },
+      );
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps,
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.learnings).toHaveLength(1);
+    expect(events.find((event) => event.type === "retry-scheduled")).toMatchObject({
+      stage: "learning-extraction",
+      query: "root-query",
+      attempt: 1,
+      maxAttempts: 3,
+      delayMs: 0,
+    });
+  });
+
+  test("skips failed sources and queries until maxFailures is exceeded", async () => {
+    const deps = createExplorationDeps();
+    const events: DeepResearchEvent[] = [];
+    const generateLearnings = deps.generateLearnings;
+    deps.maxFailures = 2;
+    deps.runSearchCoordinator = async ({ query }) => {
+      if (query === "query-2") {
+        throw new Error("search exploded");
+      }
+      return [
+        {
+          title: `Source for ${query}`,
+          url: `https://example.com/${query}`,
+          content: `Content for ${query}`,
+        },
+      ];
+    };
+    deps.generateLearnings = async (args) => {
+      if (args.query === "follow-up-query-1") {
+        throw new Error("content filter refusal");
+      }
+      return generateLearnings(args);
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 2 },
+      deps,
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.learnings.map((learning) => learning.query)).toEqual(["query-1"]);
+    expect(result.searchResults.map((source) => source.url)).toEqual([
+      "https://example.com/query-1",
+    ]);
+    expect(result.metadata.failures).toMatchObject([
+      { kind: "query", stage: "search", query: "query-2", error: "search exploded" },
+      {
+        kind: "source",
+        stage: "learning-extraction",
+        url: "https://example.com/follow-up-query-1",
+      },
+    ]);
+    expect(events.filter((event) => event.type === "query-failed")).toHaveLength(1);
+    expect(events.filter((event) => event.type === "source-failed")).toHaveLength(1);
+
+    deps.maxFailures = 1;
+    await expect(
+      executeDeepResearchWorkflow({
+        topic: "topic",
+        options: { depth: 2, breadth: 2 },
+        deps,
+      }),
+    ).rejects.toThrow("maxFailures: 1");
+  });
+
+  test("stops in-flight and queued research once maxFailures is exceeded", async () => {
+    const deps = createExplorationDeps();
+    let failed = false;
+    let searchesAfterFailure = 0;
+
+    deps.concurrency = 4;
+    deps.generateQueries = async ({ topic }) => {
+      const previousQuery = /Previous query: (.+)/.exec(topic)?.[1];
+      return previousQuery
+        ? [`follow-up-${previousQuery}`]
+        : Array.from({ length: 8 }, (_, index) => `query-${index + 1}`);
+    };
+    deps.runSearchCoordinator = async ({ query, schedule }) => {
+      if (query === "query-1") {
+        await Bun.sleep(1);
+        failed = true;
+        throw new Error("search exploded");
+      }
+
+      return schedule(async () => {
+        if (failed) {
+          searchesAfterFailure += 1;
+        }
+        await Bun.sleep(10);
+        return [
+          {
+            title: `Source for ${query}`,
+            url: `https://example.com/${query}`,
+            content: `Content for ${query}`,
+          },
+        ];
+      });
+    };
+
+    await expect(
+      executeDeepResearchWorkflow({
+        topic: "topic",
+        options: { depth: 2, breadth: 8 },
+        deps,
+      }),
+    ).rejects.toThrow("maxFailures: 0");
+    expect(searchesAfterFailure).toBe(0);
+  });
+
+  test("deterministic coordinator evaluates batched candidates in split structured calls", async () => {
+    const events: DeepResearchEvent[] = [];
+    const evaluatedBatches: string[][] = [];
+    const sources = ["a", "b", "c"].map((name) => ({
+      title: `Source ${name}`,
+      url: `https://example.com/${name}`,
+      content: `${name} `.repeat(50),
+    }));
+    const model = createScriptedModel(({ prompt }) => {
+      const urls = sources
+        .map((source) => source.url)
+        .filter((url) => prompt.includes(url));
+      evaluatedBatches.push(urls);
+      const evaluations = urls.map((url) => ({
+        url,
+        verdict: url.endsWith("/b") ? "irrelevant" : "relevant",
+        reason: "judged",
+        score: url.endsWith("/b") ? 0.1 : 0.9,
+      }));
+      return { text: JSON.stringify({ evaluations }) };
+    });
+    const deps = createCoordinatorDeps(model, async () => sources, {
+      relevanceEvaluation: "batched",
+    });
+
+    const accepted = await deps.runSearchCoordinator({
+      query: "query",
+      accumulatedUrls: new Set(),
+      acceptedSources: createNearDuplicateIndex(),
+      emit: (event) => {
+        events.push(event);
+      },
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(evaluatedBatches).toEqual([
+      ["https://example.com/a", "https://example.com/b"],
+      ["https://example.com/c"],
+    ]);
+    expect(accepted.map((source) => source.url)).toEqual([
+      "https://example.com/a",
+      "https://example.com/c",
+    ]);
+    expect(
+      Object.fromEntries(
+        events.flatMap((event) =>
+          event.type === "result-evaluated" ? [[event.result.url, event.score]] : [],
+        ),
+      ),
+    ).toEqual({
+      "https://example.com/a": 0.9,
+      "https://example.com/b": 0.1,
+      "https://example.com/c": 0.9,
+    });
+  });
+
+  test("agentic coordinator re-searches with a reformulated query when too few results are accepted", async () => {
+    const searchedQueries: string[] = [];
+    const model = createScriptedModel(({ toolName, tools, prompt }) => {
+      if (toolName === "searchWeb") {
+        return { toolCall: { toolName, input: { query: "query" } } };
+      }
+
+      if (toolName === "evaluateSearchResults") {
+        return { toolCall: { toolName, input: {} } };
+      }
+
+      if (tools.includes("searchWeb")) {
+        return { toolCall: { toolName: "searchWeb", input: { query: "reformulated query" } } };
+      }
+
+      if (prompt.includes("<search_result>")) {
+        const relevant = prompt.includes("https://example.com/reformulated");
+        return {
+          text: JSON.stringify({
+            verdict: relevant ? "relevant" : "irrelevant",
+            reason: "judged",
+          }),
+        };
+      }
+
+      return { text: "done" };
+    });
+    const search: SearchExecutor = async ({ query }) => {
+      searchedQueries.push(query);
+      const name = query === "query" ? "original" : "reformulated";
+      return [{ title: name, url: `https://example.com/${name}`, content: name }];
+    };
+    const deps = createCoordinatorDeps(model, search, { coordinatorMode: "agentic" });
+
+    const accepted = await deps.runSearchCoordinator({
+      query: "query",
+      accumulatedUrls: new Set(),
+      acceptedSources: createNearDuplicateIndex(),
+      emit: () => {},
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(searchedQueries).toEqual(["query", "reformulated query"]);
+    expect(accepted.map((source) => source.url)).toEqual([
+      "https://example.com/reformulated",
+    ]);
+  });
+
+  test("agentic coordinator turns share the concurrency limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const scripted = createScriptedModel(({ toolName, prompt }) => {
+      if (toolName === "searchWeb") {
+        return { toolCall: { toolName, input: { query: "query" } } };
+      }
+      if (toolName === "evaluateSearchResults") {
+        return { toolCall: { toolName, input: {} } };
+      }
+      if (prompt.includes("<search_result>")) {
+        return { text: JSON.stringify({ verdict: "relevant", reason: "judged" }) };
+      }
+      return { text: "done" };
+    });
+    const model = new MockLanguageModelV3({
+      doGenerate: async (options) => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Bun.sleep(5);
+        inFlight -= 1;
+        return scripted.doGenerate(options);
+      },
+    });
+    const deps = createCoordinatorDeps(
+      model,
+      async ({ query }) => [
+        { title: query, url: `https://example.com/${query}`, content: `Content for ${query}` },
+      ],
+      { coordinatorMode: "agentic" },
+    );
+    const schedule = createConcurrencyLimiter(1);
+
+    const accepted = await Promise.all(
+      ["a", "b", "c"].map((query) =>
+        deps.runSearchCoordinator({
+          query,
+          accumulatedUrls: new Set(),
+          acceptedSources: createNearDuplicateIndex(),
+          emit: () => {},
+          schedule,
+          recordUsage: () => {},
+          withRetry: (_stage, task) => task(),
+        }),
+      ),
+    );
+
+    expect(maxInFlight).toBe(1);
+    expect(accepted.flat()).toHaveLength(3);
+  });
+
+  test("rejects near-duplicate content and records mirrors on the surviving source", async () => {
+    const events: DeepResearchEvent[] = [];
+    const story =
+      "The central bank raised interest rates by a quarter point on Tuesday, citing persistent inflation in services and a tight labor market, and signaled that further increases remain possible this year.";
+    const sources = [
+      { title: "Original", url: "https://news.example.com/rates", content: story },
+      {
+        title: "Syndicated",
+        url: "https://mirror.example.org/rates-story",
+        content: `Wire report: ${story}`,
+      },
+      {
+        title: "Different",
+        url: "https://example.com/analysis",
+        content: "An analysis of housing supply constraints across mid-sized cities and their effect on rents.",
+      },
+    ];
+    const model = createScriptedModel(() => ({
+      text: JSON.stringify({ verdict: "relevant", reason: "judged" }),
+    }));
+    const deps = createCoordinatorDeps(model, async () => sources);
+
+    const accepted = await deps.runSearchCoordinator({
+      query: "query",
+      accumulatedUrls: new Set(),
+      acceptedSources: createNearDuplicateIndex(),
+      emit: (event) => {
+        events.push(event);
+      },
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(accepted.map((source) => source.url)).toEqual([
+      "https://news.example.com/rates",
+      "https://example.com/analysis",
+    ]);
+    expect(accepted[0]?.mirrors).toEqual(["https://mirror.example.org/rates-story"]);
+    expect(
+      events.find(
+        (event) =>
+          event.type === "result-evaluated" &&
+          event.result.url === "https://mirror.example.org/rates-story",
+      ),
+    ).toMatchObject({
+      verdict: "irrelevant",
+      reason: expect.stringContaining("nearly duplicates https://news.example.com/rates"),
+    });
+  });
+
+  test("treats a near-duplicate accepted by a sibling query as a mirror", async () => {
+    const deps = createExplorationDeps();
+    const story =
+      "The central bank raised interest rates by a quarter point on Tuesday, citing persistent inflation in services and a tight labor market, and signaled that further increases remain possible this year.";
+    deps.concurrency = 2;
+    deps.runSearchCoordinator = async ({ query }) => [
+      {
+        title: `Story for ${query}`,
+        url: `https://${query}.example.com/rates`,
+        content: query === "query-1" ? story : `Wire report: ${story}`,
+      },
+    ];
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 2 },
+      deps,
+    });
+
+    expect(result.searchResults).toHaveLength(1);
+    expect(result.searchResults[0]?.mirrors).toHaveLength(1);
+  });
+
+  test("enforces domain policies before relevance evaluation", async () => {
+    const events: DeepResearchEvent[] = [];
+    const evaluated: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      evaluated.push(/https:\/\/[^\\"]+/.exec(prompt)?.[0] ?? "");
+      return { text: JSON.stringify({ verdict: "relevant", reason: "judged" }) };
+    });
+    const deps = createCoordinatorDeps(
+      model,
+      async () => [
+        { title: "Journal", url: "https://www.journal.example.com/paper", content: "Peer-reviewed study." },
+        { title: "Farm", url: "https://farm.example.com/top-10", content: "Ten facts." },
+        { title: "Blog", url: "https://blog.other.net/post", content: "Opinions." },
+      ],
+      { domainPolicy: { allow: ["example.com"], deny: ["farm.example.com"] } },
+    );
+
+    const accepted = await deps.runSearchCoordinator({
+      query: "query",
+      accumulatedUrls: new Set(),
+      acceptedSources: createNearDuplicateIndex(),
+      emit: (event) => {
+        events.push(event);
+      },
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(accepted.map((source) => source.title)).toEqual(["Journal"]);
+    expect(evaluated).toEqual(["https://www.journal.example.com/paper"]);
+    expect(
+      events.flatMap((event) =>
+        event.type === "result-evaluated" && event.verdict === "irrelevant" ? [event.reason] : [],
+      ),
+    ).toEqual([
+      "Skipped because farm.example.com is on the domain denylist.",
+      "Skipped because its domain is not on the domain allowlist.",
+    ]);
+  });
+
+  test("scores credibility from domain tiers and asks the model about unrated sources", async () => {
+    const stages: string[] = [];
+    let scheduled = 0;
+    const model = createScriptedModel(({ prompt }) => {
+      expect(prompt).not.toContain("nih.gov");
+      return {
+        text: JSON.stringify({
+          assessments: [{ id: 1, score: 0.2, reason: "Anonymous content farm." }],
+        }),
+      };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      credibilityScoring: "model",
+      domainTiers: { "journal.example.com": 0.95 },
+    });
+
+    const scores = await deps.scoreCredibility({
+      query: "query",
+      results: [
+        { title: "NIH", url: "https://www.ncbi.nih.gov/study", content: "..." },
+        { title: "Farm", url: "https://farm.example.net/top-10", content: "..." },
+        { title: "Journal", url: "https://journal.example.com/paper", content: "..." },
+      ],
+      schedule: (task) => {
+        scheduled += 1;
+        return task();
+      },
+      recordUsage: (stage) => {
+        stages.push(stage);
+      },
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(scheduled).toBe(1);
+    expect(scores).toEqual([
+      { score: 0.95, method: "domain-tier", reason: "Domain tier for nih.gov." },
+      { score: 0.2, method: "model", reason: "Anonymous content farm." },
+      { score: 0.95, method: "domain-tier", reason: "Domain tier for journal.example.com." },
+    ]);
+    expect(stages).toEqual(["credibility-assessment"]);
+  });
+
+  test("keeps results unscored when credibility scoring fails", async () => {
+    const results = ["https://www.ncbi.nih.gov/study", "https://blog.example.net/post"].map(
+      (url) => ({ title: url, url, content: "..." }),
+    );
+    const failingModel = createScriptedModel(() => {
+      throw new Error("assessment exploded");
+    });
+    const modelDeps = createCoordinatorDeps(failingModel, async () => [], {
+      credibilityScoring: "model",
+    });
+    const scorerDeps = createCoordinatorDeps(mockModel, async () => [], {
+      credibilityScorer: ({ result }) => {
+        if (result.url.includes("blog")) {
+          throw new Error("scorer exploded");
+        }
+        return { score: 0.9, reason: "Checked." };
+      },
+    });
+    const call: Parameters<WorkflowDependencies["scoreCredibility"]>[0] = {
+      query: "query",
+      results,
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    };
+    const methods = (scores: Array<{ method: string } | null>) =>
+      scores.map((score) => score?.method ?? null);
+
+    expect(methods(await modelDeps.scoreCredibility(call))).toEqual(["domain-tier", null]);
+    expect(methods(await scorerDeps.scoreCredibility(call))).toEqual(["custom", null]);
+
+    const deps = createDeps();
+    deps.scoreCredibility = async () => {
+      throw new Error("credibility exploded");
+    };
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps,
+    });
+
+    expect(result.searchResults.map((source) => source.url)).toEqual(["https://example.com/root"]);
+    expect(result.metadata.failures).toEqual([]);
+  });
+
+  test("runs custom credibility scorers within the concurrency limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const deps = createCoordinatorDeps(mockModel, async () => [], {
+      credibilityScorer: async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Bun.sleep(5);
+        inFlight -= 1;
+        return { score: 0.5, reason: "Checked." };
+      },
+    });
+
+    const scores = await deps.scoreCredibility({
+      query: "query",
+      results: ["a", "b", "c", "d"].map((name) => ({
+        title: name,
+        url: `https://example.com/${name}`,
+        content: "...",
+      })),
+      schedule: createConcurrencyLimiter(2),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(scores).toHaveLength(4);
+  });
+
+  test("prompt templates replace or extend the default stage prompts", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return { text: JSON.stringify({ queries: ["query"] }) };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      prompts: {
+        queryGeneration: {
+          system: "You research EU energy policy.",
+          prompt: ({ topic, breadth }, defaultText) =>
+            `${defaultText}\nWrite all ${breadth} queries about ${topic} in German.`,
+        },
+      },
+    });
+
+    await deps.generateQueries({
+      topic: "heat pumps",
+      breadth: 2,
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("You research EU energy policy.");
+    expect(prompts[0]).toContain("Generate up to 2 web research queries.");
+    expect(prompts[0]).toContain("Write all 2 queries about heat pumps in German.");
+  });
+
+  test("generates queries in every search language", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return {
+        text: JSON.stringify({
+          queries: ["heat pump subsidies", "Wärmepumpe Förderung", "heat pump efficiency"],
+        }),
+      };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      searchLanguages: ["English", "German"],
+    });
+
+    const queries = await deps.generateQueries({
+      topic: "heat pumps",
+      breadth: 1,
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts[0]).toContain(
+      "Generate up to 1 web research queries in each of these languages: English, German.",
+    );
+    expect(queries).toEqual(["heat pump subsidies", "Wärmepumpe Förderung"]);
+  });
+
+  test("searches the queries of every search language during a run", async () => {
+    const searched: string[] = [];
+    const model = createScriptedModel(() => ({
+      text: JSON.stringify({
+        queries: [
+          "heat pump subsidies",
+          "heat pump efficiency",
+          "Wärmepumpe Förderung",
+          "Wärmepumpe Effizienz",
+        ],
+      }),
+    }));
+    const deps = createCoordinatorDeps(
+      model,
+      async ({ query }) => {
+        searched.push(query);
+        return [];
+      },
+      { searchLanguages: ["English", "German"] },
+    );
+    deps.generateReport = async () => "# Report";
+
+    await executeDeepResearchWorkflow({
+      topic: "heat pumps",
+      options: { depth: 1, breadth: 2 },
+      deps,
+    });
+
+    expect(searched).toEqual([
+      "heat pump subsidies",
+      "heat pump efficiency",
+      "Wärmepumpe Förderung",
+      "Wärmepumpe Effizienz",
+    ]);
+  });
+
+  test("normalizes learnings into the output language and keeps the original quote", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return {
+        text: JSON.stringify({
+          learning: "Heat pump sales in Germany doubled in 2023.",
+          followUpQuestions: [],
+          originalQuote: "Der Absatz von Wärmepumpen hat sich 2023 verdoppelt.",
+        }),
+      };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], { outputLanguage: "English" });
+
+    const learnings = await deps.generateLearnings({
+      query: "Wärmepumpe Absatz",
+      searchResult: {
+        title: "Marktbericht",
+        url: "https://example.de/markt",
+        content: "Der Absatz von Wärmepumpen hat sich 2023 verdoppelt.",
+      },
+      maxFollowUpQuestions: 2,
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts[0]).toContain("Write every learning and follow-up question in English.");
+    expect(learnings[0]?.originalQuote).toBe(
+      "Der Absatz von Wärmepumpen hat sich 2023 verdoppelt.",
+    );
+    expect(
+      buildReportPrompt({
+        topic: "Wärmepumpen",
+        queries: [],
+        searchResults: [],
+        learnings,
+        outputLanguage: "English",
+      }),
+    ).toContain("Write the report in English");
+  });
+
+  test("claims mode extracts several categorized learnings per source", async () => {
+    const model = createScriptedModel(() => ({
+      text: JSON.stringify({
+        learnings: [
+          { learning: "Revenue grew 12% in 2025.", category: "statistic", followUpQuestions: ["Why?", "Why?"] },
+          { learning: "Analysts expect slower growth.", category: "forecast", followUpQuestions: [] },
+          { learning: "The CEO called the year pivotal.", category: "opinion", followUpQuestions: [] },
+        ],
+      }),
+    }));
+    const deps = createCoordinatorDeps(model, async () => [], {
+      learningExtraction: "claims",
+      maxLearningsPerSource: 2,
+    });
+
+    const learnings = await deps.generateLearnings({
+      query: "query",
+      searchResult: { title: "Report", url: "https://example.com/report", content: "..." },
+      maxFollowUpQuestions: 2,
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(learnings).toEqual([
+      {
+        query: "query",
+        sourceUrl: "https://example.com/report",
+        learning: "Revenue grew 12% in 2025.",
+        followUpQuestions: ["Why?"],
+        category: "statistic",
+      },
+      {
+        query: "query",
+        sourceUrl: "https://example.com/report",
+        learning: "Analysts expect slower growth.",
+        followUpQuestions: [],
+        category: "forecast",
+      },
+    ]);
+  });
+
+  test("maps long sources chunk by chunk and reduces the learnings per source", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      const part = /part (\d) of/.exec(prompt)?.[1];
+      return {
+        text: JSON.stringify({
+          learning: part ? `Finding from part ${part}` : "Merged finding",
+          followUpQuestions: [],
+        }),
+      };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      chunkCharacters: 100,
+      maxChunksPerSource: 2,
+    });
+    const paragraph = `${"word ".repeat(15).trim()}.`;
+    let scheduled = 0;
+
+    const learnings = await deps.generateLearnings({
+      query: "query",
+      searchResult: {
+        title: "Long report",
+        url: "https://example.com/long",
+        content: [paragraph, paragraph, paragraph, paragraph].join("\n\n"),
+      },
+      maxFollowUpQuestions: 2,
+      schedule: (task) => {
+        scheduled += 1;
+        return task();
+      },
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(scheduled).toBe(3);
+    expect(prompts).toHaveLength(3);
+    expect(prompts[2]).toContain("Finding from part 1");
+    expect(prompts[2]).toContain("Finding from part 2");
+    expect(learnings.map((learning) => learning.learning)).toEqual(["Merged finding"]);
+  });
+
+  test("caps the chunks read per source when only chunkCharacters is set", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return { text: JSON.stringify({ learning: "Finding", followUpQuestions: [] }) };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      chunkCharacters: 100,
+      maxChunksPerSource: undefined,
+    });
+    const paragraph = `${"word ".repeat(15).trim()}.`;
+
+    await deps.generateLearnings({
+      query: "query",
+      searchResult: {
+        title: "Long report",
+        url: "https://example.com/long",
+        content: Array.from({ length: 10 }, () => paragraph).join("\n\n"),
+      },
+      maxFollowUpQuestions: 2,
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts).toHaveLength(5);
+    expect(prompts[0]).toContain("part 1 of 4");
+  });
+
+  test("reads long sources whole when chunking is not configured", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return { text: JSON.stringify({ learning: "Finding", followUpQuestions: [] }) };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      chunkCharacters: undefined,
+      maxChunksPerSource: undefined,
+    });
+    const content = `${"word ".repeat(2_000)}closing detail`;
+
+    await deps.generateLearnings({
+      query: "query",
+      searchResult: { title: "Long report", url: "https://example.com/long", content },
+      maxFollowUpQuestions: 2,
+      schedule: (task) => task(),
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("closing detail");
+    expect(prompts[0]).not.toContain("part 1 of");
+  });
+
+  test("splitIntoChunks breaks long text at paragraph boundaries with overlap", () => {
+    const text = ["a".repeat(40), "b".repeat(40), "c".repeat(40)].join("\n\n");
+
+    expect(splitIntoChunks("short", 100)).toEqual(["short"]);
+    expect(splitIntoChunks(text, 90, 2)).toEqual([
+      `${"a".repeat(40)}\n\n${"b".repeat(40)}`,
+      `b\n\n${"c".repeat(40)}`,
+    ]);
+  });
+
+  test("synthesizes oversized research context through theme summaries", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      if (prompt.includes("into coherent themes")) {
+        return {
+          text: JSON.stringify({
+            themes: [
+              { theme: "Costs", learningIds: [0] },
+              { theme: "Adoption", learningIds: [1] },
+            ],
+          }),
+        };
+      }
+
+      const theme = /on the theme \\"(\w+)\\"/.exec(prompt)?.[1];
+      return { text: theme ? `${theme} summary` : "# Report" };
+    });
+    const deps = createCoordinatorDeps(model, async () => [], {
+      maxReportPromptTokens: 400,
+    });
+    const searchResults = ["a", "b", "c"].map((name) => ({
+      title: `Source ${name}`,
+      url: `https://example.com/${name}`,
+      content: `${name} `.repeat(400),
+    }));
+
+    const report = await deps.generateReport({
+      topic: "topic",
+      queries: ["query"],
+      searchResults,
+      learnings: [
+        { query: "query", sourceUrl: "https://example.com/a", learning: "Costs fell.", followUpQuestions: [] },
+        { query: "query", sourceUrl: "https://example.com/b", learning: "Usage grew.", followUpQuestions: [] },
+        { query: "query", sourceUrl: "https://example.com/c", learning: "Nobody agreed.", followUpQuestions: [] },
+      ],
+      citations: [],
+      contradictions: [],
+      template: { name: "bare", sections: ["Report"] },
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    const finalPrompt = prompts.at(-1) ?? "";
+    expect(report).toBe("# Report");
+    expect(prompts).toHaveLength(5);
+    expect(finalPrompt).toContain("Costs summary");
+    expect(finalPrompt).toContain("Adoption summary");
+    expect(finalPrompt).toContain("Other findings");
+    expect(finalPrompt).toContain("https://example.com/c");
+    expect(finalPrompt).not.toContain("a a a");
+  });
+
+  test("report templates shape the prompt and missing sections trigger one revision", async () => {
+    const prompts: string[] = [];
+    const model = createScriptedModel(({ prompt }) => {
+      prompts.push(prompt);
+      return {
+        text: prompt.includes("Missing sections: Risks")
+          ? "# Memo\n## Summary\nSolid.\n## Risks\nNone found."
+          : "# Memo\n## Summary\nSolid.",
+      };
+    });
+    const deps = createCoordinatorDeps(model, async () => []);
+
+    const report = await deps.generateReport({
+      topic: "topic",
+      queries: ["query"],
+      searchResults: [],
+      learnings: [],
+      citations: [],
+      contradictions: [],
+      template: {
+        name: "memo",
+        sections: ["Summary", { heading: "Risks", guidance: "Each risk with its source." }],
+        targetWords: 300,
+        tone: "skeptical",
+      },
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain("3. ## Risks: Each risk with its source.");
+    expect(prompts[0]).toContain("Aim for about 300 words.");
+    expect(prompts[0]).toContain("Tone: skeptical.");
+    expect(report).toBe("# Memo\n## Summary\nSolid.\n## Risks\nNone found.");
+  });
+
+  test("records the report template and sections the report still misses", async () => {
+    const deps = createDeps();
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: {
+        depth: 1,
+        breadth: 1,
+        reportTemplate: resolveReportTemplate("executive-brief"),
+      },
+      deps,
+    });
+
+    expect(result.metadata.reportTemplate).toBe("executive-brief");
+    expect(result.metadata.missingSections).toEqual([
+      "Bottom Line",
+      "Key Points",
+      "Implications",
+      "Recommendations",
+    ]);
+    expect(() => resolveReportTemplate("press-release")).toThrow(
+      'Unknown report template "press-release".',
+    );
+  });
+
+  test("numbered citations validate markers and URLs and append references", async () => {
+    const deps = createDeps();
+    deps.citationStyle = "numbered";
+    deps.generateReport = async ({ citations }) => {
+      expect(citations.map(({ id, url }) => [id, url])).toEqual([
+        [1, "https://example.com/root"],
+        [2, "https://example.com/follow-up"],
+      ]);
+      return [
+        "# Report",
+        "Root finding [1, 7]. Invented claim [9].",
+        "See [the follow-up](http://www.example.com/follow-up/) and https://unknown.example.com/x for more.",
+        "",
+        "## References",
+        "",
+        "- made-up list",
+      ].join("\n");
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 1 },
+      deps,
+    });
+
+    expect(result.report).toBe(
+      [
+        "# Report",
+        "Root finding [1]. Invented claim.",
+        "See the follow-up [2] and for more.",
+        "",
+        "## References",
+        "",
+        "- [1] Root source. https://example.com/root",
+        "- [2] Follow-up source. https://example.com/follow-up",
+      ].join("\n"),
+    );
+    expect(result.citations.every((citation) => citation.cited)).toBe(true);
+    expect(result.metadata.citationIssues).toEqual([
+      { kind: "unknown-source-id", value: "7", action: "stripped" },
+      { kind: "unknown-source-id", value: "9", action: "stripped" },
+      { kind: "unknown-url", value: "https://unknown.example.com/x", action: "stripped" },
+    ]);
+  });
+
+  test("verifies report claims, emits claim-verified events and rewrites unsupported ones", async () => {
+    const deps = createDeps();
+    const events: DeepResearchEvent[] = [];
+    deps.claimVerification = "rewrite";
+    deps.generateReport = async () =>
+      [
+        "# Report",
+        "The root source reports steady growth. The market doubled in a single week.",
+        "- Analysts disagree on the long-term outlook.",
+      ].join("\n");
+    deps.verifyClaims = async ({ claims }) =>
+      claims.map((claim) =>
+        claim.startsWith("The market")
+          ? {
+              claim,
+              verdict: "unsupported" as const,
+              sourceUrl: null,
+              explanation: "No learning mentions this.",
+              revision: "",
+            }
+          : {
+              claim,
+              verdict: "supported" as const,
+              sourceUrl: "https://example.com/root",
+              explanation: "Stated by the root source.",
+            },
+      );
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps,
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.verifiedClaims.map(({ claim, verdict }) => [claim, verdict])).toEqual([
+      ["The root source reports steady growth.", "supported"],
+      ["The market doubled in a single week.", "unsupported"],
+      ["Analysts disagree on the long-term outlook.", "supported"],
+    ]);
+    expect(events.filter((event) => event.type === "claim-verified")).toHaveLength(3);
+    expect(result.report).toBe(
+      [
+        "# Report",
+        "The root source reports steady growth.",
+        "- Analysts disagree on the long-term outlook.",
+      ].join("\n"),
+    );
+  });
+
+  test("finds contradictions only between learnings from different sources", async () => {
+    const model = createScriptedModel(() => ({
+      text: JSON.stringify({
+        contradictions: [
+          {
+            subject: "Market size",
+            description: "The sources give different 2024 market sizes.",
+            learningIds: [0, 1, 1],
+          },
+          {
+            subject: "Launch date",
+            description: "One source contradicts itself.",
+            learningIds: [2, 3],
+          },
+        ],
+      }),
+    }));
+    const deps = createCoordinatorDeps(model, async () => []);
+    const learning = (sourceUrl: string, text: string): Learning => ({
+      query: "query",
+      sourceUrl,
+      learning: text,
+      followUpQuestions: [],
+    });
+
+    const contradictions = await deps.findContradictions({
+      topic: "topic",
+      learnings: [
+        learning("https://example.com/a", "The market was worth $4B in 2024."),
+        learning("https://example.com/b", "The market was worth $7B in 2024."),
+        learning("https://example.com/c", "It launched in March."),
+        learning("https://example.com/c", "It launched in May."),
+      ],
+      recordUsage: () => {},
+      withRetry: (_stage, task) => task(),
+    });
+
+    expect(contradictions).toEqual([
+      {
+        subject: "Market size",
+        description: "The sources give different 2024 market sizes.",
+        claims: [
+          { learning: "The market was worth $4B in 2024.", sourceUrl: "https://example.com/a" },
+          { learning: "The market was worth $7B in 2024.", sourceUrl: "https://example.com/b" },
+        ],
+        sourceUrls: ["https://example.com/a", "https://example.com/b"],
+      },
+    ]);
+  });
+
+  test("passes contradictions to synthesis and adds a conflicting evidence section", async () => {
+    const deps = createDeps();
+    const events: DeepResearchEvent[] = [];
+    const contradiction = {
+      subject: "Growth rate",
+      description: "The sources report different growth rates.",
+      claims: [
+        { learning: "Growth was 5%.", sourceUrl: "https://example.com/root" },
+        { learning: "Growth was 9%.", sourceUrl: "https://example.com/follow-up" },
+      ],
+      sourceUrls: ["https://example.com/root", "https://example.com/follow-up"],
+    };
+    deps.detectContradictions = true;
+    deps.findContradictions = async () => [contradiction];
+    deps.generateReport = async ({ contradictions }) => {
+      expect(contradictions).toEqual([contradiction]);
+      return ["# Report", "## Evidence and Sources", "Evidence.", "## Open Questions", "None."].join(
+        "\n",
+      );
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps,
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.contradictions).toEqual([contradiction]);
+    expect(events.filter((event) => event.type === "contradiction-detected")).toHaveLength(1);
+    expect(result.report).toBe(
+      [
+        "# Report",
+        "## Evidence and Sources",
+        "Evidence.",
+        "",
+        "## Conflicting Evidence",
+        "",
+        "### Growth rate",
+        "",
+        "The sources report different growth rates.",
+        "",
+        "- Growth was 5%. (https://example.com/root)",
+        "- Growth was 9%. (https://example.com/follow-up)",
+        "",
+        "## Open Questions",
+        "None.",
+      ].join("\n"),
+    );
+  });
+
+  test("custom templates set the heading of the conflicting evidence section", async () => {
+    const deps = createDeps();
+    const template = {
+      name: "deutsch",
+      sections: ["Belege und Quellen", "Offene Fragen"],
+      conflictingEvidenceHeading: "Widersprüchliche Belege",
+    };
+    deps.detectContradictions = true;
+    deps.findContradictions = async () => [
+      {
+        subject: "Wachstum",
+        description: "Die Quellen nennen unterschiedliche Wachstumsraten.",
+        claims: [],
+        sourceUrls: [],
+      },
+    ];
+    deps.generateReport = async () =>
+      ["# Bericht", "## Belege und Quellen", "Belege.", "## Offene Fragen", "Keine."].join("\n");
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1, reportTemplate: template },
+      deps,
+    });
+
+    expect(result.report).toContain("Belege.\n\n## Widersprüchliche Belege\n");
+    expect(result.report).not.toContain("Conflicting Evidence");
+    expect(
+      buildReportPrompt({
+        topic: "topic",
+        queries: [],
+        searchResults: [],
+        learnings: [],
+        contradictions: [
+          { subject: "Wachstum", description: "...", claims: [], sourceUrls: [] },
+        ],
+        template,
+        outputLanguage: "German",
+      }),
+    ).toContain("## Widersprüchliche Belege");
+  });
+
+  test("returns schema-validated output with source URLs limited to accepted results", async () => {
+    const deps = createDeps();
+    const schema = z.object({
+      risks: z.array(withSourceUrls(z.object({ risk: z.string(), severity: z.string() }))),
+    });
+    deps.generateReport = async () => {
+      throw new Error("The report should be skipped.");
+    };
+    deps.generateStructuredOutput = async <TOutput>({
+      searchResults,
+    }: {
+      searchResults: MinimalSearchResult[];
+    }) => {
+      expect(searchResults).toHaveLength(2);
+      return {
+        risks: [
+          {
+            value: { risk: "Vendor lock-in", severity: "high" },
+            sourceUrls: [
+              "https://example.com/root?utm_source=newsletter",
+              "https://unknown.example.com/made-up",
+            ],
+          },
+        ],
+      } as TOutput;
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 1, outputSchema: schema, includeReport: false },
+      deps,
+    });
+
+    expect(result.report).toBeNull();
+    expect(result.output).toEqual({
+      risks: [
+        {
+          value: { risk: "Vendor lock-in", severity: "high" },
+          sourceUrls: ["https://example.com/root"],
+        },
+      ],
+    });
+    expect(result.metadata.citationIssues).toEqual([
+      { kind: "unknown-url", value: "https://unknown.example.com/made-up", action: "stripped" },
+    ]);
+  });
+
+  test("keeps dates and other non-plain values in structured output", async () => {
+    const deps = createDeps();
+    const schema = z.object({
+      milestones: z.array(withSourceUrls(z.object({ name: z.string(), date: z.coerce.date() }))),
+    });
+    deps.generateStructuredOutput = async <TOutput>() =>
+      schema.parse({
+        milestones: [
+          {
+            value: { name: "Launch", date: "2025-03-01" },
+            sourceUrls: ["https://example.com/root"],
+          },
+        ],
+      }) as TOutput;
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1, outputSchema: schema },
+      deps,
+    });
+
+    const date = result.output?.milestones[0]?.value.date;
+    expect(date).toBeInstanceOf(Date);
+    expect(date?.toISOString()).toBe("2025-03-01T00:00:00.000Z");
+    expect(result.output?.milestones[0]?.sourceUrls).toEqual(["https://example.com/root"]);
+  });
+
+  test("attaches credibility scores to accepted results before synthesis", async () => {
+    const deps = createDeps();
+    const credibility = { score: 0.8, method: "custom" as const, reason: "Trusted publisher." };
+    deps.scoreCredibility = async ({ results }) =>
+      results.map((result) => (result.url === "https://example.com/root" ? credibility : null));
+    deps.generateReport = async ({ searchResults }) => {
+      expect(searchResults.map((result) => result.credibility)).toEqual([credibility]);
+      return "# Report";
+    };
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps,
+    });
+
+    expect(result.searchResults[0]?.credibility).toEqual(credibility);
+  });
+
+  test("exports a report as standalone HTML and JSON-LD with sections split out", async () => {
+    const deps = createDeps();
+    deps.generateReport = async () =>
+      [
+        "# Heat Pumps",
+        "",
+        "## Executive Summary",
+        "",
+        "Sales **doubled** [1] <script>alert(1)</script>",
+        "",
+        "## Key Findings",
+        "",
+        "- Costs fell [2]",
+        "- See [the report](javascript:void)",
+      ].join("\n");
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 2, breadth: 1 },
+      deps,
+    });
+
+    const html = renderReportHtml(result);
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Heat Pumps</title>");
+    expect(html).toContain('<li><a href="#executive-summary">Executive Summary</a></li>');
+    expect(html).toContain("Sales <strong>doubled</strong> [<a href=\"#source-1\">1</a>]");
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).toContain("<li>See the report</li>");
+    expect(html).toContain(
+      '<li id="source-2"><a href="https://example.com/follow-up">Follow-up source</a>',
+    );
+
+    const document = createReportJsonLd(result);
+    expect(document.name).toBe("Heat Pumps");
+    expect(document.hasPart).toEqual([
+      {
+        "@type": "CreativeWork",
+        position: 1,
+        headline: "Executive Summary",
+        text: "Sales **doubled** [1] <script>alert(1)</script>",
+      },
+      {
+        "@type": "CreativeWork",
+        position: 2,
+        headline: "Key Findings",
+        text: "- Costs fell [2]\n- See [the report](javascript:void)",
+      },
+    ]);
+    expect(document.citation.map((source) => source.url)).toEqual([
+      "https://example.com/root",
+      "https://example.com/follow-up",
+    ]);
+  });
+
+  test("exports accepted sources as BibTeX and CSL-JSON", async () => {
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1 },
+      deps: createDeps(),
+    });
+    result.metadata.completedAt = "2026-03-04T10:00:00.000Z";
+    result.searchResults[0]!.title = "Costs & Savings_2026";
+
+    expect(renderBibTeX(result)).toBe(
+      [
+        "@misc{source1,",
+        "  title = {Costs \\& Savings\\_2026},",
+        "  howpublished = {example.com},",
+        "  url = {https://example.com/root},",
+        "  urldate = {2026-03-04},",
+        "  note = {Accessed 2026-03-04}",
+        "}",
+      ].join("\n"),
+    );
+    expect(createCslJson(result)).toEqual([
+      {
+        id: "source1",
+        type: "webpage",
+        title: "Costs & Savings_2026",
+        URL: "https://example.com/root",
+        "container-title": "example.com",
+        accessed: { "date-parts": [[2026, 3, 4]] },
+      },
+    ]);
+  });
+
+  test("dedupes sources by canonical URL and keeps the original URL", async () => {
+    const deps = createExplorationDeps();
+    deps.runSearchCoordinator = async () => [
+      { title: "First", url: "https://example.com/a?utm_source=x", content: "a" },
+      { title: "Second", url: "http://www.example.com/a/", content: "a" },
+      { title: "Third", url: "https://example.com/a#section", content: "a" },
+    ];
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 2 },
+      deps,
+    });
+
+    expect(result.searchResults.map((source) => source.url)).toEqual([
+      "https://example.com/a?utm_source=x",
+    ]);
+    expect(result.learnings).toHaveLength(1);
+  });
+
+  test("canonicalizeUrl normalizes scheme, host, tracking parameters and custom rules", () => {
+    expect(
+      canonicalizeUrl("HTTP://WWW.Example.com:80/docs/?b=2&utm_medium=email&a=1&fbclid=abc#top"),
+    ).toBe("https://example.com/docs?a=1&b=2");
+    expect(canonicalizeUrl("https://example.com/")).toBe("https://example.com/");
+    expect(
+      canonicalizeUrl("https://m.example.com/story?session=1", {
+        stripParams: [/^session$/],
+        rules: [
+          (url) => {
+            url.hostname = url.hostname.replace(/^m\./, "");
+          },
+        ],
+      }),
+    ).toBe("https://example.com/story");
+    expect(canonicalizeUrl("not a url")).toBe("not a url");
+  });
+
+  test("splitIntoBatches keeps batches within the size budget", () => {
+    expect(splitIntoBatches([4, 3, 5, 9, 1], (size) => size, 8)).toEqual([
+      [4, 3],
+      [5],
+      [9],
+      [1],
+    ]);
+  });
+
+  test("isRetryableError classifies rate limits, server errors and aborts", () => {
+    const abortError = new Error("aborted");
+    abortError.name = "AbortError";
+
+    expect(isRetryableError(createApiCallError(429))).toBe(true);
+    expect(isRetryableError(createApiCallError(503))).toBe(true);
+    expect(isRetryableError(createApiCallError(400))).toBe(false);
+    expect(isRetryableError({ statusCode: 502 })).toBe(true);
+    expect(isRetryableError(abortError)).toBe(false);
+  });
+
+  test("streams report deltas while report-completed carries the final text", async () => {
+    const deps = createDeps();
+    const streaming = createCoordinatorDeps(
+      createStreamingModel(["# Report\n", "Streamed ", "body."]),
+      async () => [],
+    );
+    deps.generateReport = streaming.generateReport;
+    const events: DeepResearchEvent[] = [];
+
+    for await (const event of streamDeepResearchWorkflow({
+      topic: "topic",
+      options: {
+        depth: 1,
+        breadth: 1,
+        reportTemplate: { name: "bare", sections: ["Report"] },
+      },
+      deps,
+    })) {
+      events.push(event);
+    }
+
+    const deltas = events.flatMap((event) =>
+      event.type === "report-delta" ? [event.delta] : [],
+    );
+    expect(deltas).toEqual(["# Report\n", "Streamed ", "body."]);
+    expect(events.find((event) => event.type === "report-completed")).toMatchObject({
+      report: "# Report\nStreamed body.",
+    });
+    expect(events.at(-1)).toMatchObject({
+      type: "run-completed",
+      result: { report: "# Report\nStreamed body." },
+    });
+  });
+
+  test("resets the streamed report before a failed stream is retried", async () => {
+    const deps = createDeps();
+    let calls = 0;
+    const model = new MockLanguageModelV3({
+      doStream: async () => {
+        calls += 1;
+        const deltas = calls === 1 ? ["# Title\n"] : ["# Title\n", "## Executive Summary\nok"];
+        return {
+          stream: simulateReadableStream({
+            chunks: [
+              { type: "stream-start" as const, warnings: [] },
+              { type: "text-start" as const, id: "text" },
+              ...deltas.map((delta) => ({ type: "text-delta" as const, id: "text", delta })),
+              ...(calls === 1
+                ? [{ type: "error" as const, error: createApiCallError(503) }]
+                : [
+                    { type: "text-end" as const, id: "text" },
+                    {
+                      type: "finish" as const,
+                      finishReason: { unified: "stop" as const, raw: undefined },
+                      usage: {
+                        inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+                        outputTokens: { total: 1, text: 1, reasoning: 0 },
+                      },
+                    },
+                  ]),
+            ],
+          }),
+        };
+      },
+    });
+    deps.retryPolicy = { initialDelayMs: 0, jitter: 0 };
+    deps.generateReport = createCoordinatorDeps(model, async () => []).generateReport;
+    const events: DeepResearchEvent[] = [];
+    const logged: unknown[] = [];
+    const consoleError = console.error;
+    console.error = (...values: unknown[]) => {
+      logged.push(values);
+    };
+
+    try {
+      for await (const event of streamDeepResearchWorkflow({
+        topic: "topic",
+        options: {
+          depth: 1,
+          breadth: 1,
+          reportTemplate: { name: "bare", sections: ["Executive Summary"] },
+        },
+        deps,
+      })) {
+        events.push(event);
+      }
+    } finally {
+      console.error = consoleError;
+    }
+
+    const reportEvents = events.filter(
+      (event) => event.type === "report-delta" || event.type === "report-reset",
+    );
+    expect(reportEvents.map((event) => event.type)).toEqual([
+      "report-delta",
+      "report-reset",
+      "report-delta",
+      "report-delta",
+    ]);
+    const lastReset = reportEvents.findIndex((event) => event.type === "report-reset");
+    expect(
+      reportEvents
+        .slice(lastReset + 1)
+        .map((event) => (event.type === "report-delta" ? event.delta : ""))
+        .join(""),
+    ).toBe("# Title\n## Executive Summary\nok");
+    expect(logged).toEqual([]);
+    expect(events.at(-1)).toMatchObject({
+      type: "run-completed",
+      result: { report: "# Title\n## Executive Summary\nok" },
+    });
+  });
+
+  test("resets and streams the template revision of a draft that misses sections", async () => {
+    const deps = createDeps();
+    const drafts = [
+      createStreamingModel(["# Title\n", "## Summary\nok"]),
+      createStreamingModel(["# Title\n", "## Summary\nok\n", "## Findings\nmore"]),
+    ];
+    let calls = 0;
+    const model = new MockLanguageModelV3({
+      doStream: (options) => drafts[calls++]!.doStream(options),
+    });
+    deps.generateReport = createCoordinatorDeps(model, async () => []).generateReport;
+    const events: DeepResearchEvent[] = [];
+
+    for await (const event of streamDeepResearchWorkflow({
+      topic: "topic",
+      options: {
+        depth: 1,
+        breadth: 1,
+        reportTemplate: { name: "two", sections: ["Summary", "Findings"] },
+      },
+      deps,
+    })) {
+      events.push(event);
+    }
+
+    const reportEvents = events.flatMap((event) =>
+      event.type === "report-delta"
+        ? [event.delta]
+        : event.type === "report-reset"
+          ? ["<reset>"]
+          : [],
+    );
+    expect(reportEvents).toEqual([
+      "# Title\n",
+      "## Summary\nok",
+      "<reset>",
+      "# Title\n",
+      "## Summary\nok\n",
+      "## Findings\nmore",
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      type: "run-completed",
+      result: { report: "# Title\n## Summary\nok\n## Findings\nmore" },
+    });
+  });
+
+  test("aborting mid-stream returns the aborted result", async () => {
+    const deps = createDeps();
+    const streaming = createCoordinatorDeps(
+      createStreamingModel(["# Report\n", "never ", "finished"], 20),
+      async () => [],
+    );
+    deps.generateReport = streaming.generateReport;
+    const controller = new AbortController();
+    const events: DeepResearchEvent[] = [];
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: { depth: 1, breadth: 1, abortSignal: controller.signal },
+      deps,
+      emit: (event) => {
+        events.push(event);
+        if (event.type === "report-delta") {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(result.status).toBe("aborted");
+    expect(result.report).toBeNull();
+    expect(events.filter((event) => event.type === "report-delta")).toHaveLength(1);
+    expect(events.at(-1)).toMatchObject({ type: "run-error", stage: "report", aborted: true });
+  });
+
+  test("approval hooks edit, drop and add queries, results and follow-up questions", async () => {
+    const events: DeepResearchEvent[] = [];
+    const followUpTopics: string[] = [];
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: {
+        depth: 2,
+        breadth: 1,
+        approval: {
+          onQueriesGenerated: ({ topic, queries }) => {
+            if (topic !== "topic") {
+              followUpTopics.push(topic);
+              return;
+            }
+            return [...queries, "added-query"];
+          },
+          onResultsEvaluated: async ({ query, results }) =>
+            query === "follow-up-query"
+              ? []
+              : [
+                  ...results,
+                  {
+                    title: "Analyst pick",
+                    url: "https://example.com/analyst",
+                    content: "Analyst content",
+                  },
+                ],
+          onFollowUpTopic: () => ["Edited question?"],
+        },
+      },
+      deps: createDeps(),
+      emit: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(result.queries).toEqual(["root-query", "follow-up-query", "added-query"]);
+    expect(result.searchResults.map((source) => source.url)).toEqual([
+      "https://example.com/root",
+      "https://example.com/analyst",
+    ]);
+    expect(followUpTopics.length).toBeGreaterThan(0);
+    expect(followUpTopics.every((topic) => topic.includes("Edited question?"))).toBe(true);
+    expect(events.find((event) => event.type === "approval-resolved")).toEqual({
+      type: "approval-resolved",
+      approval: {
+        kind: "queries",
+        topic: "topic",
+        remainingDepth: 2,
+        queries: ["root-query", "added-query"],
+      },
+    });
+  });
+
+  test("aborting while an approval is pending returns the aborted result", async () => {
+    const controller = new AbortController();
+    const events: DeepResearchEvent[] = [];
+
+    const result = await executeDeepResearchWorkflow({
+      topic: "topic",
+      options: {
+        depth: 1,
+        breadth: 1,
+        abortSignal: controller.signal,
+        approval: {
+          onQueriesGenerated: () => new Promise<string[]>(() => undefined),
+        },
+      },
+      deps: createDeps(),
+      emit: (event) => {
+        events.push(event);
+        if (event.type === "awaiting-approval") {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(result.status).toBe("aborted");
+    expect(result.queries).toEqual([]);
+    expect(events.at(-1)).toMatchObject({ type: "run-error", aborted: true });
+  });
+
   test("returns a controlled aborted result and emits run-error", async () => {
     const deps = createDeps();
     const controller = new AbortController();